@@ -4,9 +4,26 @@ import {
     GridPosition,
     ValidateWordRequest,
     ValidateWordResponse,
+    WordMomentum,
+    DisputeWordRequest,
+    DisputeWordResponse,
+    StartSessionRequest,
+    StartSessionResponse,
     SubmitScoreRequest,
     SubmitScoreResponse,
-    DailyLeaderboard
+    DailyLeaderboard,
+    LeaderboardEntry,
+    AggregateLeaderboard,
+    AggregateEntry,
+    AggregateMetric,
+    AggregatePeriod,
+    LeaderboardPeriod,
+    ScoringModel,
+    ScoringRuleSet,
+    SolvedWord,
+    UserProgress,
+    PlayerStatsResponse,
+    WordScoreBreakdown
 } from '../../shared/types/api';
 
 // Shared interfaces
@@ -14,13 +31,47 @@ interface GameComponentBase {
     render(): HTMLElement;
 }
 
+// Shown before a game so players know the rules; puzzles without a rule set use exponential
+const SCORING_RULE_NOTES: Record<ScoringRuleSet, string> = {
+    classic: 'Points: 3-4 letters 1 · 5 letters 2 · 6 letters 3 · 7 letters 5 · 8+ letters 11',
+    exponential: 'Points double with each letter: 3 letters 2 · 4 letters 4 · 5 letters 8 · ...',
+    flat: 'Every word scores 1 point'
+};
+
+// Shown before a game when words aren't scored by length alone
+const SCORING_NOTES: Partial<Record<ScoringModel, string>> = {
+    popularity: 'Words few other players found score up to double'
+};
+
+const LEADERBOARD_TABS: Record<LeaderboardPeriod, string> = {
+    daily: 'Today',
+    weekly: 'This Week',
+    monthly: 'This Month',
+    alltime: 'All Time'
+};
+
+const AGGREGATE_METRICS: Record<AggregateMetric, string> = {
+    total: 'Total',
+    average: 'Average',
+    days: 'Days',
+    best: 'Best'
+};
+
+// The figure each aggregate metric ranks on
+const AGGREGATE_VALUES: Record<AggregateMetric, (entry: AggregateEntry) => number> = {
+    total: entry => entry.totalScore,
+    average: entry => entry.averageScore,
+    days: entry => entry.daysPlayed,
+    best: entry => entry.bestScore
+};
+
 interface GameResults {
     score: number;
     foundWords: string[];
-    rank?: number;
-    isPersonalBest?: boolean;
     dailyId: string;
+    postId: string;     // Post hosting the puzzle; leaderboards are kept per post
     timeElapsed: number;
+    submission: SubmitScoreResponse | null;  // Server response to the end-of-game submission
 }
 
 // Shared utilities
@@ -31,10 +82,54 @@ class ComponentUtils {
         return div.innerHTML;
     }
 
-    static showError(container: HTMLElement, message: string, duration: number = 3000) {
+    // Extra class for tiles that hold more than one letter, e.g. "Qu"
+    static tileClass(tile: string): string {
+        return tile.length > 1 ? ' multi-letter' : '';
+    }
+
+    // A found word with its points; words that earned multipliers also show how they were scored
+    static wordChip(word: string, breakdown?: WordScoreBreakdown): string {
+        if (!breakdown) {
+            return `<span class="word">${this.sanitizeHTML(word)}</span>`;
+        }
+        const rare = breakdown.multiplier > 1;
+        const factors = [...(rare ? [breakdown.multiplier] : []), ...(breakdown.combo ? [breakdown.combo] : [])];
+        const reasons = [
+            ...(rare && breakdown.reason ? [breakdown.reason] : []),
+            ...(breakdown.combo ? [`×${breakdown.combo} combo`] : []),
+            ...(breakdown.bonusWord ? ['bonus word'] : [])
+        ];
+        const classes = `word${rare ? ' rare' : ''}${breakdown.bonusWord ? ' bonus' : ''}`;
+        const title = reasons.length > 0 ? ` title="${this.sanitizeHTML(reasons.join(', '))}"` : '';
+        const math = factors.length > 0 ? ` (${[breakdown.base, ...factors].join(' × ')})` : '';
+        return `<span class="${classes}"${title}>` +
+            `${this.sanitizeHTML(word)} <small>+${breakdown.score}${math}</small>` +
+            `</span>`;
+    }
+
+    static showError(
+        container: HTMLElement,
+        message: string,
+        duration: number = 3000,
+        action?: { label: string; onClick: () => void }
+    ) {
         const errorElement = document.createElement('div');
         errorElement.className = 'game-error';
         errorElement.textContent = message;
+
+        if (action) {
+            const button = document.createElement('button');
+            button.className = 'error-action';
+            button.textContent = action.label;
+            // Keep the board from treating a tap on the button as the start of a word
+            button.addEventListener('mousedown', event => event.stopPropagation());
+            button.addEventListener('touchstart', event => event.stopPropagation());
+            button.addEventListener('click', () => {
+                button.disabled = true;
+                action.onClick();
+            });
+            errorElement.appendChild(button);
+        }
         container.appendChild(errorElement);
 
         setTimeout(() => {
@@ -77,38 +172,60 @@ export class PreGame implements GameComponentBase {
     private container: HTMLDivElement;
     private gridData: GameGrid;
     private onStartCallback?: () => void;
+    private onShowStatsCallback?: () => void;
 
     constructor(gridData: GameGrid) {
         this.container = document.createElement('div');
         this.container.className = 'pre-game';
         this.gridData = gridData;
-        this.setupEventListeners();
     }
 
     private setupEventListeners() {
-        const startButton = document.createElement('button');
-        startButton.className = 'start-button';
-        startButton.textContent = 'Start Game';
-        startButton.addEventListener('click', () => {
+        this.container.querySelector('.start-button')?.addEventListener('click', () => {
             if (this.onStartCallback) {
                 this.onStartCallback();
             }
         });
-        this.container.appendChild(startButton);
+        this.container.querySelector('.stats-button')?.addEventListener('click', () => {
+            if (this.onShowStatsCallback) {
+                this.onShowStatsCallback();
+            }
+        });
     }
 
     onStart(callback: () => void) {
         this.onStartCallback = callback;
     }
 
+    onShowStats(callback: () => void) {
+        this.onShowStatsCallback = callback;
+    }
+
     render(): HTMLElement {
+        this.container.style.setProperty('--board-size', String(this.gridData.size));
         this.container.innerHTML = `
             <div class="preview-grid">
+                ${this.gridData.title ? `
+                    <div class="puzzle-title">${ComponentUtils.sanitizeHTML(this.gridData.title)}</div>
+                ` : ''}
+                ${this.gridData.difficulty ? `
+                    <div class="difficulty ${this.gridData.difficulty}">${ComponentUtils.sanitizeHTML(this.gridData.difficulty)}</div>
+                ` : ''}
+                <div class="scoring-note">
+                    ${ComponentUtils.sanitizeHTML(SCORING_RULE_NOTES[this.gridData.scoringRules ?? 'exponential'])}
+                    ${this.gridData.scoringModel && SCORING_NOTES[this.gridData.scoringModel] ? `
+                        <br>${ComponentUtils.sanitizeHTML(SCORING_NOTES[this.gridData.scoringModel] ?? '')}
+                    ` : ''}
+                    <br>Find words in quick succession for a combo; long words add time
+                    ${this.gridData.bonusWordLength ? `
+                        <br>A hidden ${this.gridData.bonusWordLength}-letter bonus word scores triple
+                    ` : ''}
+                </div>
                 <div class="grid-wrapper">
                     ${this.gridData.grid.map((row, rowIndex) => `
                         <div class="row">
                             ${row.map((letter, colIndex) => `
-                                <div class="cell preview" data-row="${rowIndex}" data-col="${colIndex}">
+                                <div class="cell preview${ComponentUtils.tileClass(letter)}" data-row="${rowIndex}" data-col="${colIndex}">
                                     ${ComponentUtils.sanitizeHTML(letter)}
                                 </div>
                             `).join('')}
@@ -116,8 +233,10 @@ export class PreGame implements GameComponentBase {
                     `).join('')}
                 </div>
                 <button class="start-button">Start Game</button>
+                <button class="stats-button">My Stats</button>
             </div>
         `;
+        this.setupEventListeners();
         return this.container;
     }
 }
@@ -128,6 +247,13 @@ export class GameBoard implements GameComponentBase {
     private gridData: GameGrid;
     private state: GameState;
     private timerInterval: number | null = null;
+    private sessionToken: string | null = null;
+    private submissionKey = crypto.randomUUID();
+    private submission: SubmitScoreResponse | null = null;
+    private wordScores = new Map<string, WordScoreBreakdown>();
+    private combo: WordMomentum | null = null;  // The running combo, until its window closes
+    private comboTimeout: number | null = null;
+    private timeElapsed = 0;
     private selectedCells: GridPosition[] = [];
     private currentWord: string = '';
     private isValidating = false;
@@ -138,12 +264,13 @@ export class GameBoard implements GameComponentBase {
         this.container.className = 'game-board';
         this.gridData = gridData;
         
-        if (!gridData.grid || !Array.isArray(gridData.grid) || gridData.grid.length !== 4) {
+        if (!gridData.grid || !Array.isArray(gridData.grid) || gridData.grid.length !== gridData.size) {
             throw new Error('Invalid grid data received');
         }
 
+        // Becomes active once the server has started the session
         this.state = {
-            isActive: true,
+            isActive: false,
             timeRemaining: 60,
             score: 0,
             foundWords: [],
@@ -235,7 +362,8 @@ export class GameBoard implements GameComponentBase {
         const row = parseInt(cell.getAttribute('data-row') ?? '-1');
         const col = parseInt(cell.getAttribute('data-col') ?? '-1');
         
-        if (row >= 0 && row < 4 && col >= 0 && col < 4) {
+        const size = this.gridData.size;
+        if (row >= 0 && row < size && col >= 0 && col < size) {
             return { row, col };
         }
         return null;
@@ -259,11 +387,14 @@ export class GameBoard implements GameComponentBase {
         const gridCell = this.state.grid[cell.row]?.[cell.col];
         if (!gridCell) return;
 
+        // A tile can hold several letters (e.g. "Qu"), so add them all
         this.selectedCells.push({ ...cell });
-        this.currentWord += gridCell;
+        this.currentWord += gridCell.toUpperCase();
     }
 
     private async validateWord(word: string) {
+        // The selection is cleared once validation finishes, so keep the path for a dispute
+        const path = [...this.selectedCells];
         let retries = 2;
         
         while (retries > 0) {
@@ -276,7 +407,8 @@ export class GameBoard implements GameComponentBase {
                         body: JSON.stringify({
                             word,
                             dailyId: this.gridData.dailyId,
-                            path: this.selectedCells
+                            sessionToken: this.sessionToken ?? '',
+                            path
                         } as ValidateWordRequest)
                     }
                 );
@@ -285,11 +417,22 @@ export class GameBoard implements GameComponentBase {
                     if (!this.state.foundWords.includes(word)) {
                         this.state.foundWords.push(word);
                         this.state.score += result.score;
+                        if (result.breakdown) this.wordScores.set(word, result.breakdown);
+                        if (result.momentum) this.applyMomentum(result.momentum);
+                        if (result.breakdown?.bonusWord && result.message) {
+                            ComponentUtils.showError(this.container, result.message, 2000);
+                        }
                         void this.playSound('success');
                     } else {
                         ComponentUtils.showError(this.container, 'Word already found!');
                         void this.playSound('error');
                     }
+                } else if (result.code === 'NOT_A_WORD') {
+                    ComponentUtils.showError(this.container, result.message ?? 'Not a valid word', 5000, {
+                        label: 'Should this count?',
+                        onClick: () => void this.disputeWord(word, path)
+                    });
+                    void this.playSound('error');
                 } else {
                     if (result.message) {
                         ComponentUtils.showError(this.container, result.message);
@@ -311,6 +454,54 @@ export class GameBoard implements GameComponentBase {
         }
     }
 
+    // Keep the combo meter running and add any bonus time the server granted
+    private applyMomentum(momentum: WordMomentum) {
+        if (momentum.bonusSeconds > 0) {
+            this.state.timeRemaining += momentum.bonusSeconds;
+            ComponentUtils.showError(this.container, `Long word! +${momentum.bonusSeconds}s`, 1500);
+        }
+
+        this.combo = momentum;
+        if (this.comboTimeout) clearTimeout(this.comboTimeout);
+        this.comboTimeout = window.setTimeout(() => {
+            this.combo = null;
+            this.comboTimeout = null;
+            this.updateUI();
+        }, momentum.comboWindowMs);
+
+        // Restart the drain animation on the meter
+        const fill = this.container.querySelector('.combo-fill');
+        if (fill instanceof HTMLElement) {
+            fill.style.animation = 'none';
+            void fill.offsetWidth;
+            fill.style.animation = `combo-drain ${momentum.comboWindowMs}ms linear forwards`;
+        }
+    }
+
+    // Ask moderators to count a word the dictionary rejected
+    private async disputeWord(word: string, path: GridPosition[]) {
+        try {
+            const result = await ComponentUtils.retryFetch<DisputeWordResponse>(
+                '/api/dispute-word',
+                {
+                    method: 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({
+                        word,
+                        dailyId: this.gridData.dailyId,
+                        sessionToken: this.sessionToken ?? '',
+                        path
+                    } as DisputeWordRequest)
+                },
+                1
+            );
+            ComponentUtils.showError(this.container, result.message ?? 'Sent to the moderators', 2000);
+        } catch (error) {
+            console.error('Error disputing word:', error);
+            ComponentUtils.showError(this.container, 'Could not send that word to the moderators');
+        }
+    }
+
     private async playSound(type: 'success' | 'error') {
         try {
             let audio = this.soundCache.get(type);
@@ -363,6 +554,16 @@ export class GameBoard implements GameComponentBase {
             wordDisplay.classList.toggle('validating', this.isValidating);
         }
 
+        const comboMeter = this.container.querySelector('.combo-meter');
+        if (comboMeter instanceof HTMLElement) {
+            comboMeter.classList.toggle('active', this.combo !== null);
+            comboMeter.classList.toggle('hot', (this.combo?.combo ?? 0) > 1);
+            const label = comboMeter.querySelector('.combo-label');
+            if (label instanceof HTMLElement) {
+                label.textContent = this.combo && this.combo.combo > 1 ? `Combo ×${this.combo.comboMultiplier}` : 'Combo';
+            }
+        }
+
         const scoreDisplay = this.container.querySelector('.score');
         if (scoreDisplay instanceof HTMLElement) {
             scoreDisplay.textContent = `Score: ${this.state.score}`;
@@ -371,17 +572,42 @@ export class GameBoard implements GameComponentBase {
         const foundWordsElement = this.container.querySelector('.found-words');
         if (foundWordsElement instanceof HTMLElement) {
             foundWordsElement.innerHTML = this.state.foundWords
-                .map(word => `<span class="word">${ComponentUtils.sanitizeHTML(word)}</span>`)
+                .map(word => ComponentUtils.wordChip(word, this.wordScores.get(word)))
                 .join('');
         }
     }
 
+    private async startSession(): Promise<number> {
+        const session = await ComponentUtils.retryFetch<StartSessionResponse>(
+            '/api/session/start',
+            {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    dailyId: this.gridData.dailyId
+                } as StartSessionRequest)
+            }
+        );
+        this.sessionToken = session.sessionToken;
+        return session.duration;
+    }
+
     startTimer(onTimeUp: () => void) {
         if (this.timerInterval) {
             clearInterval(this.timerInterval);
         }
 
-        this.state.timeRemaining = 60;
+        void this.startSession()
+            .then(duration => this.runTimer(duration, onTimeUp))
+            .catch(error => {
+                console.error('Error starting game session:', error);
+                ComponentUtils.showError(this.container, 'Failed to start game. Please try again.');
+            });
+    }
+
+    private runTimer(duration: number, onTimeUp: () => void) {
+        this.state.isActive = true;
+        this.state.timeRemaining = duration;
         this.updateUI();
 
         this.timerInterval = window.setInterval(() => {
@@ -404,6 +630,11 @@ export class GameBoard implements GameComponentBase {
             clearInterval(this.timerInterval);
             this.timerInterval = null;
         }
+        if (this.comboTimeout) {
+            clearTimeout(this.comboTimeout);
+            this.comboTimeout = null;
+        }
+        this.combo = null;
 
         this.state.isActive = false;
         this.updateUI();
@@ -415,13 +646,19 @@ export class GameBoard implements GameComponentBase {
                     method: 'POST',
                     headers: { 'Content-Type': 'application/json' },
                     body: JSON.stringify({
-                        score: this.state.score,
                         dailyId: this.gridData.dailyId,
-                        foundWords: this.state.foundWords,
-                        timeElapsed: 60 - this.state.timeRemaining
+                        sessionToken: this.sessionToken ?? '',
+                        idempotencyKey: this.submissionKey
                     } as SubmitScoreRequest)
                 }
             );
+
+            // The server's record of the game is authoritative
+            this.submission = result;
+            this.state.score = result.score ?? this.state.score;
+            this.state.foundWords = result.foundWords ?? this.state.foundWords;
+            this.timeElapsed = result.timeElapsed ?? this.timeElapsed;
+            this.updateUI();
             
             const event = new CustomEvent('gameEnd', {
                 detail: {
@@ -449,17 +686,30 @@ export class GameBoard implements GameComponentBase {
         return [...this.state.foundWords];
     }
 
+    getTimeElapsed(): number {
+        return this.timeElapsed;
+    }
+
+    getSubmission(): SubmitScoreResponse | null {
+        return this.submission;
+    }
+
     render(): HTMLElement {
+        this.container.style.setProperty('--board-size', String(this.gridData.size));
         this.container.innerHTML = `
             <div class="game-header">
                 <div class="timer">${this.state.timeRemaining}</div>
+                <div class="combo-meter">
+                    <span class="combo-label">Combo</span>
+                    <div class="combo-bar"><div class="combo-fill"></div></div>
+                </div>
                 <div class="score">Score: ${this.state.score}</div>
             </div>
             <div class="grid">
                 ${this.state.grid.map((row, rowIndex) => `
                     <div class="row">
                         ${row.map((letter, colIndex) => `
-                            <div class="cell" data-row="${rowIndex}" data-col="${colIndex}">
+                            <div class="cell${ComponentUtils.tileClass(letter)}" data-row="${rowIndex}" data-col="${colIndex}">
                                 ${ComponentUtils.sanitizeHTML(letter)}
                             </div>
                         `).join('')}
@@ -468,9 +718,7 @@ export class GameBoard implements GameComponentBase {
             </div>
             <div class="current-word"></div>
             <div class="found-words">
-                ${this.state.foundWords.map(word => `
-                    <span class="word">${ComponentUtils.sanitizeHTML(word)}</span>
-                `).join('')}
+                ${this.state.foundWords.map(word => ComponentUtils.wordChip(word, this.wordScores.get(word))).join('')}
             </div>
         `;
         return this.container;
@@ -482,18 +730,45 @@ export class PostGame implements GameComponentBase {
     private container: HTMLDivElement;
     private results: GameResults;
     private leaderboard: DailyLeaderboard | null = null;
+    private aroundMe: DailyLeaderboard | null = null;
+    // Keyed by period and metric, e.g. weekly:average
+    private aggregates = new Map<string, AggregateLeaderboard>();
+    private activeTab: LeaderboardPeriod = 'daily';
+    private activeMetric: AggregateMetric = 'total';
+    private solution: SolvedWord[] | null = null;
+    private onPlayAgainCallback?: () => void;
+    private onShowStatsCallback?: () => void;
 
     constructor(results: GameResults) {
         this.container = document.createElement('div');
         this.container.className = 'post-game';
         this.results = results;
         void this.loadLeaderboard();
+        void this.loadSolution();
+    }
+
+    private async loadSolution() {
+        try {
+            this.solution = await ComponentUtils.retryFetch<SolvedWord[]>(
+                '/api/daily-solution',
+                { method: 'GET' }
+            );
+            this.updateUI();
+        } catch (error) {
+            console.error('Error loading solution:', error);
+        }
+    }
+
+    private getMissedWords(): SolvedWord[] {
+        if (!this.solution) return [];
+        const found = new Set(this.results.foundWords.map(word => word.toUpperCase()));
+        return this.solution.filter(solved => !found.has(solved.word));
     }
 
     private async loadLeaderboard() {
         try {
             this.leaderboard = await ComponentUtils.retryFetch<DailyLeaderboard>(
-                `/api/leaderboard/${this.results.dailyId}`,
+                `/api/leaderboard/${this.results.postId}`,
                 { method: 'GET' }
             );
             this.updateUI();
@@ -501,54 +776,112 @@ export class PostGame implements GameComponentBase {
             console.error('Error loading leaderboard:', error);
             ComponentUtils.showError(this.container, 'Failed to load leaderboard');
         }
+
+        // Players outside the first page also get to see their neighbours
+        const rank = this.results.submission?.rank;
+        if (this.leaderboard && rank && !this.leaderboard.entries.some(entry => entry.rank === rank)) {
+            try {
+                this.aroundMe = await ComponentUtils.retryFetch<DailyLeaderboard>(
+                    `/api/leaderboard/${this.results.postId}?around=me`,
+                    { method: 'GET' }
+                );
+                this.updateUI();
+            } catch (error) {
+                console.error('Error loading nearby ranks:', error);
+            }
+        }
     }
 
-    private async submitScore() {
-        const submitButton = this.container.querySelector('#submitScore') as HTMLButtonElement;
-        if (submitButton) {
-            submitButton.disabled = true;
-            submitButton.textContent = 'Submitting...';
+    private async loadMoreLeaderboard() {
+        const current = this.leaderboard;
+        if (!current || current.nextOffset === undefined) return;
+
+        try {
+            const page = await ComponentUtils.retryFetch<DailyLeaderboard>(
+                `/api/leaderboard/${this.results.postId}?offset=${current.nextOffset}`,
+                { method: 'GET' }
+            );
+            this.leaderboard = { ...page, offset: current.offset, entries: [...current.entries, ...page.entries] };
+            this.updateUI();
+        } catch (error) {
+            console.error('Error loading more of the leaderboard:', error);
+            ComponentUtils.showError(this.container, 'Failed to load leaderboard');
         }
+    }
 
+    private async loadAggregate(period: AggregatePeriod, metric: AggregateMetric) {
         try {
-            const result = await ComponentUtils.retryFetch<SubmitScoreResponse>(
-                '/api/submit-score',
-                {
-                    method: 'POST',
-                    headers: { 'Content-Type': 'application/json' },
-                    body: JSON.stringify({
-                        score: this.results.score,
-                        dailyId: this.results.dailyId,
-                        foundWords: this.results.foundWords,
-                        timeElapsed: this.results.timeElapsed
-                    } as SubmitScoreRequest)
-                }
+            const board = await ComponentUtils.retryFetch<AggregateLeaderboard>(
+                `/api/leaderboard?period=${period}&metric=${metric}`,
+                { method: 'GET' }
             );
+            this.aggregates.set(`${period}:${metric}`, board);
+            this.updateUI();
+        } catch (error) {
+            console.error(`Error loading ${period} leaderboard:`, error);
+            ComponentUtils.showError(this.container, 'Failed to load leaderboard');
+        }
+    }
 
-            const resultElement = this.container.querySelector('.submission-result');
-            if (resultElement instanceof HTMLElement) {
-                if (result.isPersonalBest) {
-                    resultElement.textContent = '🎉 New Personal Best! ' + 
-                        (result.rank ? `Ranked #${result.rank} on the leaderboard!` : '');
-                } else if (result.rank) {
-                    resultElement.textContent = `Ranked #${result.rank} on the leaderboard!`;
-                }
-            }
+    private selectTab(period: LeaderboardPeriod) {
+        this.activeTab = period;
+        if (period !== 'daily' && !this.aggregates.has(`${period}:${this.activeMetric}`)) {
+            void this.loadAggregate(period, this.activeMetric);
+        }
+        this.updateUI();
+    }
 
-            void this.loadLeaderboard(); // Refresh leaderboard
-        } catch (error) {
-            console.error('Error submitting score:', error);
-            ComponentUtils.showError(this.container, 'Failed to submit score');
-        } finally {
-            if (submitButton) {
-                submitButton.disabled = false;
-                submitButton.textContent = 'Submit Score';
-            }
+    private selectMetric(metric: AggregateMetric) {
+        this.activeMetric = metric;
+        this.selectTab(this.activeTab);
+    }
+
+    private renderDailyEntry(entry: LeaderboardEntry): string {
+        const isMe = entry.rank === this.results.submission?.rank;
+        return `
+            <div class="leaderboard-entry${isMe ? ' me' : ''}">
+                <span class="rank">#${entry.rank}</span>
+                <span class="username">${ComponentUtils.sanitizeHTML(entry.username)}</span>
+                <span class="score">${entry.score}</span>
+                <span class="details">${entry.foundWords} words · ${entry.timeElapsed}s</span>
+            </div>
+        `;
+    }
+
+    private renderLeaderboardEntries(): string {
+        if (this.activeTab === 'daily') {
+            if (!this.leaderboard) return '<div class="leaderboard-loading">Loading...</div>';
+            const shown = new Set(this.leaderboard.entries.map(entry => entry.rank));
+            const nearby = this.aroundMe?.entries.filter(entry => !shown.has(entry.rank)) ?? [];
+            return `
+                ${this.leaderboard.entries.map(entry => this.renderDailyEntry(entry)).join('')}
+                ${this.leaderboard.nextOffset !== undefined ? `
+                    <button class="leaderboard-more">Show more (${this.leaderboard.totalPlayers} players)</button>
+                ` : ''}
+                ${nearby.length > 0 ? `
+                    <div class="leaderboard-gap">Around you</div>
+                    ${nearby.map(entry => this.renderDailyEntry(entry)).join('')}
+                ` : ''}
+            `;
         }
+
+        const board = this.aggregates.get(`${this.activeTab}:${this.activeMetric}`);
+        if (!board) return '<div class="leaderboard-loading">Loading...</div>';
+        if (board.entries.length === 0) return '<div class="leaderboard-loading">No scores yet</div>';
+        const value = AGGREGATE_VALUES[board.metric];
+        return board.entries.map((entry, index) => `
+            <div class="leaderboard-entry">
+                <span class="rank">#${index + 1}</span>
+                <span class="username">${ComponentUtils.sanitizeHTML(entry.username)}</span>
+                <span class="score">${value(entry)}</span>
+                <span class="details">${entry.daysPlayed}d · avg ${entry.averageScore} · best ${entry.bestScore}</span>
+            </div>
+        `).join('');
     }
 
     private generateShareText(): string {
-        const { score, foundWords, rank } = this.results;
+        const { score, foundWords } = this.results;
+        const rank = this.results.submission?.rank;
         let text = `🎯 Scrambled Squares Score: ${score}\n` +
                   `📝 Words Found: ${foundWords.length}\n`;
         
@@ -568,6 +901,24 @@ export class PostGame implements GameComponentBase {
         this.render();
     }
 
+    private getSubmissionText(): string {
+        const submission = this.results.submission;
+        if (!submission) return 'Your score could not be submitted.';
+        if (submission.leaderboardClosed) return 'The leaderboard for this puzzle is closed.';
+        if (submission.ranked === false) return submission.message ?? 'Practice round: not ranked.';
+        if (submission.completed) return '🥇 You found every word!';
+        if (submission.isPersonalBest) {
+            return '🎉 New Personal Best! ' +
+                (submission.rank ? `Ranked #${submission.rank} on the leaderboard!` : '');
+        }
+        if (!submission.rank) return '';
+        const outOf = submission.totalPlayers ? ` of ${submission.totalPlayers}` : '';
+        const better = submission.totalPlayers && submission.totalPlayers > 1
+            ? ` Better than ${submission.percentile ?? 0}% of players.`
+            : '';
+        return `Ranked #${submission.rank}${outOf} on the leaderboard!${better}`;
+    }
+
     render(): HTMLElement {
         this.container.innerHTML = `
             <div class="results">
@@ -576,40 +927,80 @@ export class PostGame implements GameComponentBase {
                 <div class="words-found">
                     <h3>Words Found (${this.results.foundWords.length}):</h3>
                     <div class="word-list">
-                        ${this.results.foundWords.map(word => `
-                            <span class="word">${ComponentUtils.sanitizeHTML(word)}</span>
-                        `).join('')}
+                        ${this.results.foundWords.map(word =>
+                            ComponentUtils.wordChip(word, this.results.submission?.wordScores?.[word])
+                        ).join('')}
                     </div>
                 </div>
-                <div class="submission-result"></div>
-                ${this.leaderboard ? `
-                    <div class="leaderboard">
-                        <h3>Today's Leaderboard</h3>
-                        <div class="leaderboard-entries">
-                            ${this.leaderboard.entries.slice(0, 5).map((entry, index) => `
-                                <div class="leaderboard-entry">
-                                    <span class="rank">#${index + 1}</span>
-                                    <span class="username">${ComponentUtils.sanitizeHTML(entry.username)}</span>
-                                    <span class="score">${entry.score}</span>
-                                </div>
+                ${this.solution ? `
+                    <div class="missed-words">
+                        <h3>Missed Words (${this.getMissedWords().length}):</h3>
+                        <div class="word-list">
+                            ${this.getMissedWords().map(solved => `
+                                <span class="word missed">${ComponentUtils.sanitizeHTML(solved.word)} <small>+${solved.score}</small></span>
                             `).join('')}
                         </div>
                     </div>
                 ` : ''}
+                <div class="submission-result">${ComponentUtils.sanitizeHTML(this.getSubmissionText())}</div>
+                ${this.results.submission?.streak && this.results.submission.streak > 1 ? `
+                    <div class="streak">🔥 ${this.results.submission.streak}-day streak</div>
+                ` : ''}
+                ${this.results.submission?.newAchievements?.length ? `
+                    <div class="new-achievements">
+                        <h3>Achievement Unlocked!</h3>
+                        ${this.results.submission.newAchievements.map(achievement => `
+                            <div class="achievement unlocked">
+                                <span class="achievement-icon">${achievement.icon}</span>
+                                <span class="achievement-name">${ComponentUtils.sanitizeHTML(achievement.name)}</span>
+                                <span class="achievement-description">${ComponentUtils.sanitizeHTML(achievement.description)}</span>
+                            </div>
+                        `).join('')}
+                    </div>
+                ` : ''}
+                <div class="leaderboard">
+                    <div class="leaderboard-tabs">
+                        ${(Object.keys(LEADERBOARD_TABS) as LeaderboardPeriod[]).map(period => `
+                            <button class="leaderboard-tab${period === this.activeTab ? ' active' : ''}" data-period="${period}">
+                                ${LEADERBOARD_TABS[period]}
+                            </button>
+                        `).join('')}
+                    </div>
+                    ${this.activeTab !== 'daily' ? `
+                        <div class="leaderboard-tabs leaderboard-metrics">
+                            ${(Object.keys(AGGREGATE_METRICS) as AggregateMetric[]).map(metric => `
+                                <button class="leaderboard-metric leaderboard-tab${metric === this.activeMetric ? ' active' : ''}" data-metric="${metric}">
+                                    ${AGGREGATE_METRICS[metric]}
+                                </button>
+                            `).join('')}
+                        </div>
+                    ` : ''}
+                    <div class="leaderboard-entries">
+                        ${this.renderLeaderboardEntries()}
+                    </div>
+                </div>
                 <div class="actions">
-                    <button id="submitScore" class="primary-button">Submit Score</button>
                     <button id="shareScore" class="primary-button">Share Score</button>
                     <button id="playAgain" class="secondary-button">Play Again</button>
+                    <button id="showStats" class="secondary-button">My Stats</button>
                 </div>
             </div>
         `;
 
-        const submitButton = this.container.querySelector('#submitScore');
-        const shareButton = this.container.querySelector('#shareScore');
+        this.container.querySelector('.leaderboard-more')?.addEventListener('click', () => {
+            void this.loadMoreLeaderboard();
+        });
 
-        if (submitButton instanceof HTMLElement) {
-            submitButton.addEventListener('click', () => void this.submitScore());
-        }
+        this.container.querySelectorAll<HTMLElement>('.leaderboard-tab').forEach(tab => {
+            tab.addEventListener('click', () => {
+                const period = tab.dataset.period as LeaderboardPeriod | undefined;
+                const metric = tab.dataset.metric as AggregateMetric | undefined;
+                if (period) this.selectTab(period);
+                if (metric) this.selectMetric(metric);
+            });
+        });
+
+        const shareButton = this.container.querySelector('#shareScore');
 
         if (shareButton instanceof HTMLElement) {
             shareButton.addEventListener('click', () => {
@@ -623,13 +1014,121 @@ export class PostGame implements GameComponentBase {
             });
         }
 
+        // Bound on every render since the markup is rebuilt when data arrives
+        this.container.querySelector('#playAgain')?.addEventListener('click', () => {
+            if (this.onPlayAgainCallback) {
+                this.onPlayAgainCallback();
+            }
+        });
+        this.container.querySelector('#showStats')?.addEventListener('click', () => {
+            if (this.onShowStatsCallback) {
+                this.onShowStatsCallback();
+            }
+        });
+
         return this.container;
     }
 
     onPlayAgain(callback: () => void) {
-        const playAgainButton = this.container.querySelector('#playAgain');
-        if (playAgainButton instanceof HTMLElement) {
-            playAgainButton.addEventListener('click', callback);
+        this.onPlayAgainCallback = callback;
+    }
+
+    onShowStats(callback: () => void) {
+        this.onShowStatsCallback = callback;
+    }
+}
+
+// PlayerStats Component
+export class PlayerStats implements GameComponentBase {
+    private container: HTMLDivElement;
+    private progress: PlayerStatsResponse | null = null;
+    private onBackCallback?: () => void;
+
+    constructor() {
+        this.container = document.createElement('div');
+        this.container.className = 'player-stats';
+        void this.loadStats();
+    }
+
+    private async loadStats() {
+        try {
+            this.progress = await ComponentUtils.retryFetch<PlayerStatsResponse>('/api/me/stats', { method: 'GET' });
+            this.render();
+        } catch (error) {
+            console.error('Error loading stats:', error);
+            ComponentUtils.showError(this.container, 'Failed to load your stats');
         }
     }
+
+    onBack(callback: () => void) {
+        this.onBackCallback = callback;
+    }
+
+    private renderHistogram(progress: UserProgress): string {
+        const maxCount = Math.max(1, ...progress.scoreHistogram.map(bucket => bucket.count));
+        return progress.scoreHistogram.map(bucket => `
+            <div class="histogram-row">
+                <span class="histogram-label">${bucket.max === null ? `${bucket.min}+` : `${bucket.min}-${bucket.max}`}</span>
+                <span class="histogram-bar" style="width: ${Math.round((bucket.count / maxCount) * 100)}%"></span>
+                <span class="histogram-count">${bucket.count}</span>
+            </div>
+        `).join('');
+    }
+
+    render(): HTMLElement {
+        const progress = this.progress;
+        this.container.innerHTML = `
+            <div class="results">
+                <h2>My Stats</h2>
+                ${!progress ? '<div class="leaderboard-loading">Loading...</div>' : progress.gamesPlayed === 0 ? `
+                    <p>Finish a ranked game to start tracking your stats.</p>
+                ` : `
+                    <div class="stats-summary">
+                        <div class="stat"><span class="stat-value">${progress.gamesPlayed}</span><span class="stat-label">Games</span></div>
+                        <div class="stat"><span class="stat-value">${progress.bestScore}</span><span class="stat-label">Best</span></div>
+                        <div class="stat"><span class="stat-value">${progress.averageScore}</span><span class="stat-label">Average</span></div>
+                        <div class="stat"><span class="stat-value">${progress.averageWordsPerGame}</span><span class="stat-label">Words/Game</span></div>
+                    </div>
+                    <div class="streak">🔥 Streak: ${progress.currentStreak} (best ${progress.longestStreak})</div>
+                    ${progress.longestWord ? `
+                        <div class="longest-word">Longest word: <strong>${ComponentUtils.sanitizeHTML(progress.longestWord)}</strong></div>
+                    ` : ''}
+                    ${progress.achievements.length > 0 ? `
+                        <h3>Achievements</h3>
+                        <div class="achievements">
+                            ${progress.achievements.map(achievement => `
+                                <div class="achievement" title="${ComponentUtils.sanitizeHTML(achievement.description)}">
+                                    <span class="achievement-icon">${achievement.icon}</span>
+                                    <span class="achievement-name">${ComponentUtils.sanitizeHTML(achievement.name)}</span>
+                                </div>
+                            `).join('')}
+                        </div>
+                    ` : ''}
+                    <h3>Score Distribution</h3>
+                    <div class="histogram">${this.renderHistogram(progress)}</div>
+                    <h3>Recent Games</h3>
+                    <div class="recent-results">
+                        ${progress.recentResults.map(result => `
+                            <div class="leaderboard-entry">
+                                <span class="username">${ComponentUtils.sanitizeHTML(result.dailyId)}</span>
+                                <span class="score">${result.score}</span>
+                                <span class="details">${result.foundWords} words${result.rank ? ` · #${result.rank}` : ''}</span>
+                            </div>
+                        `).join('')}
+                    </div>
+                `}
+                <div class="actions">
+                    <button id="statsBack" class="secondary-button">Back</button>
+                </div>
+            </div>
+        `;
+
+        this.container.querySelector('#statsBack')?.addEventListener('click', () => {
+            if (this.onBackCallback) {
+                this.onBackCallback();
+            }
+        });
+
+        return this.container;
+    }
 }
\ No newline at end of file
@@ -1,9 +1,9 @@
-import { GameGrid } from "../shared/types/api";
-import { PreGame, GameBoard, PostGame } from "./components/GameComponents";
+import { GameGrid, SubmitScoreResponse } from "../shared/types/api";
+import { PreGame, GameBoard, PostGame, PlayerStats } from "./components/GameComponents";
 
 class GameManager {
     private container: HTMLElement;
-    private currentComponent: PreGame | GameBoard | PostGame | null = null;
+    private currentComponent: PreGame | GameBoard | PostGame | PlayerStats | null = null;
 
     constructor() {
         this.container = document.getElementById("game-container") as HTMLElement;
@@ -31,7 +31,7 @@ class GameManager {
                 throw new Error("Invalid game data received. Please refresh the page.");
             }
 
-            if (!gridData.grid || !Array.isArray(gridData.grid) || gridData.grid.length !== 4) {
+            if (!gridData.grid || !Array.isArray(gridData.grid) || gridData.grid.length !== gridData.size) {
                 throw new Error("Invalid grid format. Please contact support.");
             }
             
@@ -51,6 +51,9 @@ class GameManager {
             preGame.onStart(() => {
                 this.startGame(gridData);
             });
+            preGame.onShowStats(() => {
+                this.showStats(() => this.showPreGame(gridData));
+            });
         } catch (error) {
             console.error("Failed to show pre-game screen:", error);
             this.showError("Failed to setup game screen. Please refresh the page.");
@@ -67,7 +70,9 @@ class GameManager {
                     score: gameBoard.getScore(),
                     foundWords: gameBoard.getFoundWords(),
                     dailyId: gridData.dailyId,
-                    timeElapsed: 60
+                    postId: gridData.postId ?? '',
+                    timeElapsed: gameBoard.getTimeElapsed(),
+                    submission: gameBoard.getSubmission()
                 });
             });
         } catch (error) {
@@ -80,7 +85,9 @@ class GameManager {
         score: number; 
         foundWords: string[]; 
         dailyId: string;
+        postId: string;
         timeElapsed: number;
+        submission: SubmitScoreResponse | null;
     }) {
         try {
             const postGame = new PostGame(results);
@@ -89,17 +96,31 @@ class GameManager {
             postGame.onPlayAgain(() => {
                 void this.initialize();
             });
+            postGame.onShowStats(() => {
+                this.showStats(() => this.replaceComponent(postGame));
+            });
         } catch (error) {
             console.error("Failed to end game:", error);
             this.showError("Failed to save game results. Please take a screenshot of your score.");
         }
     }
 
-    private replaceComponent(component: PreGame | GameBoard | PostGame) {
+    private showStats(onBack: () => void) {
+        try {
+            const stats = new PlayerStats();
+            this.replaceComponent(stats);
+            stats.onBack(onBack);
+        } catch (error) {
+            console.error("Failed to show stats:", error);
+            this.showError("Failed to load your stats. Please try again.");
+        }
+    }
+
+    private replaceComponent(component: PreGame | GameBoard | PostGame | PlayerStats) {
         try {
             // Remove old component if exists
             if (this.currentComponent) {
-                const oldElement = this.container.querySelector('.pre-game, .game-board, .post-game');
+                const oldElement = this.container.querySelector('.pre-game, .game-board, .post-game, .player-stats');
                 if (oldElement) {
                     this.container.removeChild(oldElement);
                 }
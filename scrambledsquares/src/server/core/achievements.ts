@@ -0,0 +1,138 @@
+import { redis } from '@devvit/web/server';
+import { Achievement, UserProgress } from '../../shared/types/api';
+import { SessionResult } from './session';
+import { scopedKey } from './keys';
+
+// Key prefixes for Redis storage
+const KEYS = {
+    ACHIEVEMENTS: 'achievements',
+} as const;
+
+/**
+ * What an achievement can look at after a ranked game
+ */
+export interface AchievementContext {
+    result: SessionResult;      // The game just finished
+    progress: UserProgress;     // Lifetime stats, already including this game
+    foundAllWords: boolean;
+}
+
+interface AchievementDefinition extends Omit<Achievement, 'unlockedAt'> {
+    check: (context: AchievementContext) => boolean;
+}
+
+const longestWordLength = ({ result }: AchievementContext): number =>
+    Math.max(0, ...result.foundWords.map(found => found.word.length));
+
+/**
+ * Every achievement, in display order. Add new ones here.
+ */
+const ACHIEVEMENTS: AchievementDefinition[] = [
+    {
+        id: 'first-game',
+        name: 'First Steps',
+        description: 'Finish your first ranked game',
+        icon: '🎮',
+        check: ({ progress }) => progress.gamesPlayed >= 1
+    },
+    {
+        id: 'six-letters',
+        name: 'Stretching Out',
+        description: 'Find a word with 6 or more letters',
+        icon: '📏',
+        check: context => longestWordLength(context) >= 6
+    },
+    {
+        id: 'eight-letters',
+        name: 'Wordsmith',
+        description: 'Find a word with 8 or more letters',
+        icon: '🖋️',
+        check: context => longestWordLength(context) >= 8
+    },
+    {
+        id: 'twenty-five-words',
+        name: 'Quick Fingers',
+        description: 'Find 25 words in one game',
+        icon: '⚡',
+        check: ({ result }) => result.foundWords.length >= 25
+    },
+    {
+        id: 'fifty-words',
+        name: 'Word Storm',
+        description: 'Find 50 words in one game',
+        icon: '🌪️',
+        check: ({ result }) => result.foundWords.length >= 50
+    },
+    {
+        id: 'century',
+        name: 'Century',
+        description: 'Score 100 points in one game',
+        icon: '💯',
+        check: ({ result }) => result.score >= 100
+    },
+    {
+        id: 'found-everything',
+        name: 'Clean Sweep',
+        description: 'Find every word in a puzzle',
+        icon: '🧹',
+        check: ({ foundAllWords }) => foundAllWords
+    },
+    {
+        id: 'streak-7',
+        name: 'Week Streak',
+        description: 'Play 7 daily puzzles in a row',
+        icon: '🔥',
+        check: ({ progress }) => progress.currentStreak >= 7
+    },
+    {
+        id: 'streak-30',
+        name: 'Month Streak',
+        description: 'Play 30 daily puzzles in a row',
+        icon: '🏅',
+        check: ({ progress }) => progress.currentStreak >= 30
+    },
+    {
+        id: 'games-100',
+        name: 'Regular',
+        description: 'Play 100 ranked games',
+        icon: '🏆',
+        check: ({ progress }) => progress.gamesPlayed >= 100
+    }
+];
+
+/**
+ * Checks achievements after each ranked game and remembers which ones a player has
+ */
+export class AchievementService {
+    private static achievementsKey(username: string): string {
+        return scopedKey(KEYS.ACHIEVEMENTS, username);
+    }
+
+    private static toAchievement({ check: _check, ...achievement }: AchievementDefinition, unlockedAt: number): Achievement {
+        return { ...achievement, unlockedAt };
+    }
+
+    /**
+     * Unlock every achievement the game earned. Returns only the ones unlocked just now.
+     */
+    static async evaluate(username: string, context: AchievementContext): Promise<Achievement[]> {
+        const key = this.achievementsKey(username);
+        const now = Date.now();
+        const earned = ACHIEVEMENTS.filter(definition => definition.check(context));
+
+        const added = await Promise.all(earned.map(definition => redis.hSetNX(key, definition.id, now.toString())));
+        return earned
+            .filter((_, index) => added[index] === 1)
+            .map(definition => this.toAchievement(definition, now));
+    }
+
+    /**
+     * Get the achievements a player has unlocked, in display order
+     */
+    static async getUnlocked(username: string): Promise<Achievement[]> {
+        const unlocked = await redis.hGetAll(this.achievementsKey(username));
+        return ACHIEVEMENTS
+            .filter(definition => unlocked?.[definition.id])
+            .map(definition => this.toAchievement(definition, parseInt(unlocked?.[definition.id] ?? '0')));
+    }
+}
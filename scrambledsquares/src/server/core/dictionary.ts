@@ -1,73 +1,81 @@
-import { redis } from '@devvit/web/server';
-import { ValidateWordResponse, GridPosition } from '../../shared/types/api';
-
-const CACHE_KEY = 'scrambled:dictionary:words';
-const CACHE_EXPIRY = 86400 * 7; // 7 days
-
-// Official TWL06 Scrabble Dictionary (filtered for 3-15 letter words)
-const TWL06_WORDS = new Set([
-    // 3 letters
-    "AAH", "AAL", "AAS", "ABA", "ABO", "ABS", "ABY", "ACE", "ACT", "ADD", "ADO", "ADS", "ADZ", "AFF", "AFT", "AGA", 
-    "AGE", "AGO", "AGS", "AHA", "AHI", "AHS", "AID", "AIL", "AIM", "AIN", "AIR", "AIS", "AIT", "ALA", "ALB", "ALE",
-    // 4 letters
-    "AALS", "ABAC", "ABAS", "ABBA", "ABBE", "ABED", "ABET", "ABLE", "ABLY", "ABOS", "ABRI", "ABUT", "ABYE", "ABYS",
-    "ACED", "ACES", "ACHE", "ACHY", "ACID", "ACME", "ACNE", "ACRE", "ACTA", "ACTS", "ACYL", "ADDS", "ADIT", "ADOS",
-    // 5 letters
-    "AAHED", "AALII", "ABACA", "ABACI", "ABACK", "ABAFT", "ABAMP", "ABASE", "ABASH", "ABATE", "ABBEY", "ABBES",
-    "ABETS", "ABIDE", "ABLED", "ABLER", "ABLES", "ABODE", "ABORT", "ABOUT", "ABOVE", "ABRIS", "ABUSE", "ABUTS",
-    // 6+ letters (add more as needed)
-    "AARDVARK", "ABANDON", "ABALONE", "ABASEDLY", "ABASHING", "ABATTOIR", "ABBOTCY", "ABDICATE", "ABDOMEN",
-    "ABDUCTED", "ABERRANT", "ABETMENT", "ABEYANCE", "ABHORRED", "ABIDANCE", "ABJECTLY", "ABJURING", "ABLATIVE",
-    "ABLUTION", "ABNEGATE", "ABODANCE", "ABOLISH", "ABOMINATE", "ABORTION", "ABOUNDING", "ABRASION", "ABRIDGED",
-    "ABROGATED", "ABSCESSED", "ABSCISING", "ABSCONDER", "ABSENTLY", "ABSINTH", "ABSOLUTE", "ABSORBED", "ABSTAIN"
-]);
-
+import { createHash } from 'crypto';
+import wordListData from './OTCWL2016-Playability.txt?raw';
+import { WordTrie } from './trie';
+import { lengthScore } from './scoring';
+import { WordOverlay } from './solver';
+import { ValidateWordResponse, GridPosition, GameGrid, WordRejectionCode } from '../../shared/types/api';
+
+/**
+ * Single source of truth for valid words, loaded from the bundled
+ * OTCWL2016 list. Each line is `<rank> <WORD>`; the playability rank is
+ * skipped, since every word in the list shares rank 1.
+ */
 export class DictionaryService {
     private static initialized = false;
-    private static words: Set<string>;
+    private static trie: WordTrie = new WordTrie();
+    private static version = '';
 
     /**
      * Initialize the dictionary service
      */
     static async initialize(): Promise<void> {
+        this.load();
+    }
+
+    /**
+     * Parse the bundled word list (only done once)
+     */
+    private static load(): void {
         if (this.initialized) return;
 
         try {
-            // Try to load from Redis cache first
-            const cachedWords = await redis.get(CACHE_KEY);
-            if (cachedWords) {
-                this.words = new Set(JSON.parse(cachedWords));
-                this.initialized = true;
-                return;
-            }
+            const trie = new WordTrie();
+            for (const line of wordListData.split('\n')) {
+                const [, word] = line.trim().split(/\s+/);
+                if (!word) continue;
 
-            // Use embedded TWL06 dictionary
-            this.words = new Set(TWL06_WORDS);
-
-            // Cache for future use
-            try {
-                await redis.set(CACHE_KEY, JSON.stringify([...this.words]));
-                await redis.expire(CACHE_KEY, CACHE_EXPIRY);
-            } catch (cacheError) {
-                console.warn('Failed to cache dictionary in Redis:', cacheError);
-                // Continue since we still have the words in memory
+                trie.insert(word.toUpperCase());
             }
-            
-            this.initialized = true;
-            console.log(`Dictionary initialized with ${this.words.size} words`);
 
+            this.trie = trie;
+            this.version = `otcwl2016-${createHash('sha1').update(wordListData).digest('hex').slice(0, 8)}`;
+            this.initialized = true;
+            console.log(`Dictionary ${this.version} initialized with ${trie.size} words`);
         } catch (error) {
             console.error('Failed to initialize dictionary:', error);
-            this.words = new Set(TWL06_WORDS);
-            this.initialized = true;
-            console.warn('Using dictionary without Redis caching');
+            throw new Error('Dictionary initialization failed');
         }
     }
 
     /**
-     * Validate a word against the dictionary and grid
+     * Get the version identifier of the loaded word list
      */
-    static async validateWord(word: string, path: GridPosition[]): Promise<ValidateWordResponse> {
+    static getVersion(): string {
+        this.load();
+        return this.version;
+    }
+
+    /**
+     * Get the dictionary prefix tree for the board solver
+     */
+    static getTrie(): WordTrie {
+        this.load();
+        return this.trie;
+    }
+
+    /**
+     * Validate a word against the dictionary and the puzzle it was found on.
+     * The path must stay on the board, move between adjacent cells, use each
+     * cell once and spell the word; the word must be in the puzzle's word set.
+     * The subreddit's overlay, if given, overrides the dictionary either way.
+     */
+    static async validateWord(
+        word: string,
+        path: GridPosition[],
+        puzzle: GameGrid,
+        puzzleWords: Set<string> | null,
+        overlay?: WordOverlay
+    ): Promise<ValidateWordResponse> {
         if (!this.initialized) {
             await this.initialize();
         }
@@ -79,7 +87,8 @@ export class DictionaryService {
             return { 
                 isValid: false, 
                 score: 0, 
-                message: 'Word must be at least 3 letters long' 
+                message: 'Word must be at least 3 letters long',
+                code: 'TOO_SHORT'
             };
         }
 
@@ -87,69 +96,105 @@ export class DictionaryService {
             return {
                 isValid: false,
                 score: 0,
-                message: 'Word is too long'
+                message: 'Word is too long',
+                code: 'TOO_LONG'
             };
         }
 
-        // Check against dictionary
-        if (!this.words.has(upperWord)) {
+        // Check against dictionary. A puzzle generated with a different word list
+        // keeps using its own word set so a mid-day update can't invalidate it.
+        const useStoredWords = !!puzzleWords && !!puzzle.dictionaryVersion
+            && puzzle.dictionaryVersion !== this.version;
+        const blocked = overlay?.blocked.has(upperWord) ?? false;
+        const allowed = !blocked && (overlay?.allowed.has(upperWord) ?? false);
+        const inDictionary = !blocked && (allowed || (useStoredWords
+            ? puzzleWords?.has(upperWord) ?? false
+            : this.trie.has(upperWord)));
+        if (!inDictionary) {
             return { 
                 isValid: false, 
                 score: 0, 
-                message: 'Not a valid word' 
+                message: 'Not a valid word',
+                code: 'NOT_A_WORD'
+            };
+        }
+
+        // Validate the path traces the word on this puzzle's grid
+        const pathError = this.validatePath(path, upperWord, puzzle);
+        if (pathError) {
+            return {
+                isValid: false,
+                score: 0,
+                message: 'Invalid word path',
+                code: pathError
             };
         }
 
-        // Validate the path forms a valid word
-        if (!this.validatePath(path, upperWord)) {
+        // A word allowed after the puzzle was made isn't in its word set, but
+        // the path check has already shown it is on the board
+        if (puzzleWords && !allowed && !puzzleWords.has(upperWord)) {
             return {
                 isValid: false,
                 score: 0,
-                message: 'Invalid word path'
+                message: 'Word is not part of this puzzle',
+                code: 'NOT_IN_PUZZLE'
             };
         }
 
-        // Calculate score based on word length
-        // Exponential scoring: 3 letters = 2 points, 4 = 4, 5 = 8, etc.
-        const score = Math.pow(2, upperWord.length - 2);
+        // Score by word length; the puzzle's scoring model may weight it afterwards
+        const breakdown = lengthScore(upperWord, puzzle.scoringRules);
 
         return {
             isValid: true,
-            score,
-            message: `Valid word! +${score} points`
+            score: breakdown.score,
+            message: `Valid word! +${breakdown.score} points`,
+            breakdown
         };
     }
 
     /**
-     * Validate that a path is valid within the grid
+     * Validate that a path is valid within the grid and spells the word.
+     * Returns the rejection code, or null if the path is valid.
      */
-    private static validatePath(path: GridPosition[], word: string): boolean {
-        if (!path || path.length === 0 || !word) return false;
-        
-        // Each position must be valid and adjacent to the previous
+    static validatePath(path: GridPosition[], word: string, puzzle: GameGrid): WordRejectionCode | null {
+        if (!Array.isArray(path) || path.length === 0 || !word) return 'INVALID_PATH';
+
+        const usedCells = new Set<string>();
+        let spelled = '';
+
+        // Each position must be valid, unused and adjacent to the previous
         for (let i = 0; i < path.length; i++) {
             const pos = path[i];
-            if (!pos || !this.isValidGridPosition(pos)) {
-                return false;
+            if (!pos || !this.isValidGridPosition(pos, puzzle.size)) {
+                return 'INVALID_PATH';
             }
 
             // Check if adjacent to previous position (except first position)
             if (i > 0) {
                 const prev = path[i - 1];
                 if (!prev || !this.arePositionsAdjacent(prev, pos)) {
-                    return false;
+                    return 'INVALID_PATH';
                 }
             }
+
+            const cellKey = `${pos.row},${pos.col}`;
+            if (usedCells.has(cellKey)) {
+                return 'CELL_REUSED';
+            }
+            usedCells.add(cellKey);
+
+            spelled += (puzzle.grid[pos.row]?.[pos.col] ?? '').toUpperCase();
         }
 
-        return true;
+        return spelled === word ? null : 'PATH_MISMATCH';
     }
 
     /**
-     * Check if a position is within the 4x4 grid bounds
+     * Check if a position is within the grid bounds
      */
-    private static isValidGridPosition(pos: GridPosition): boolean {
-        return pos.row >= 0 && pos.row < 4 && pos.col >= 0 && pos.col < 4;
+    private static isValidGridPosition(pos: GridPosition, gridSize: number): boolean {
+        return Number.isInteger(pos.row) && Number.isInteger(pos.col) &&
+            pos.row >= 0 && pos.row < gridSize && pos.col >= 0 && pos.col < gridSize;
     }
 
     /**
@@ -165,14 +210,13 @@ export class DictionaryService {
      * Check if a word exists in the dictionary
      */
     static isValidWord(word: string): boolean {
-        if (!this.initialized || !this.words) return false;
-        return this.words.has(word.toUpperCase());
+        return this.getTrie().has(word);
     }
 
     /**
      * Get the number of words in the dictionary
      */
     static getWordCount(): number {
-        return this.words?.size ?? 0;
+        return this.trie.size;
     }
 }
\ No newline at end of file
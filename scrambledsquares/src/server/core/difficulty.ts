@@ -0,0 +1,106 @@
+import { BoardSize, Difficulty, PuzzleStats, ScoringRuleSet, SolvedWord } from '../../shared/types/api';
+import { calculateWordScore } from './scoring';
+
+interface DifficultyBand {
+    minPoints: number;
+    maxPoints: number;
+    minLongestWord: number;
+    maxLongestWord: number;
+}
+
+// Bands are tuned for a 4x4 board; point limits scale with the number of cells.
+// Word rarity isn't part of a band: every word in the bundled OTCWL2016 list has
+// playability rank 1, so a share of common words would never tell boards apart.
+const DIFFICULTY_BANDS: Record<Difficulty, DifficultyBand> = {
+    easy: { minPoints: 700, maxPoints: 2500, minLongestWord: 5, maxLongestWord: 8 },
+    medium: { minPoints: 400, maxPoints: 1100, minLongestWord: 6, maxLongestWord: 9 },
+    hard: { minPoints: 150, maxPoints: 500, minLongestWord: 7, maxLongestWord: 16 }
+};
+
+// The least a hand-made board must offer, tuned for a 4x4 board and scaled like the bands
+const QUALITY_FLOOR = { minWords: 15, minPoints: 100, minLongestWord: 5 };
+
+// Sunday = 0: easy Mondays building up to hard Saturdays
+const WEEKLY_SCHEDULE: Difficulty[] = ['medium', 'easy', 'easy', 'medium', 'medium', 'hard', 'hard'];
+
+/**
+ * Thrown when bounded generation can't hit the requested difficulty band
+ */
+export class PuzzleGenerationError extends Error {
+    constructor(
+        readonly difficulty: Difficulty,
+        readonly attempts: number,
+        readonly reasons: Record<string, number>
+    ) {
+        const summary = Object.entries(reasons)
+            .sort(([, a], [, b]) => b - a)
+            .map(([reason, count]) => `${reason} (${count})`)
+            .join(', ');
+        super(`Could not generate a ${difficulty} puzzle in ${attempts} attempts: ${summary}`);
+        this.name = 'PuzzleGenerationError';
+    }
+}
+
+/**
+ * Summarize a solved board for difficulty checks and display.
+ * Points follow the given rule set; without one they are the solver's
+ * exponential scores, which is what the bands and quality floor expect.
+ */
+export function computePuzzleStats(solution: SolvedWord[], rules?: ScoringRuleSet): PuzzleStats {
+    const points = (solved: SolvedWord) => rules ? calculateWordScore(solved.word, rules) : solved.score;
+    return {
+        wordCount: solution.length,
+        totalPoints: solution.reduce((sum, solved) => sum + points(solved), 0),
+        longestWord: solution.reduce((max, solved) => Math.max(max, solved.word.length), 0)
+    };
+}
+
+/**
+ * Check puzzle stats against a difficulty band.
+ * Returns the reasons the board misses the band (empty when it fits).
+ */
+export function checkDifficulty(stats: PuzzleStats, difficulty: Difficulty, size: BoardSize): string[] {
+    const band = DIFFICULTY_BANDS[difficulty];
+    const scale = (size * size) / 16;
+    const reasons: string[] = [];
+
+    if (stats.totalPoints < band.minPoints * scale) reasons.push('too few points');
+    if (stats.totalPoints > band.maxPoints * scale) reasons.push('too many points');
+
+    if (stats.longestWord < band.minLongestWord) reasons.push('longest word too short');
+    if (stats.longestWord > band.maxLongestWord) reasons.push('longest word too long');
+
+    return reasons;
+}
+
+/**
+ * Find the easiest difficulty band a board fits, if any
+ */
+export function classifyDifficulty(stats: PuzzleStats, size: BoardSize): Difficulty | undefined {
+    const levels: Difficulty[] = ['easy', 'medium', 'hard'];
+    return levels.find(difficulty => checkDifficulty(stats, difficulty, size).length === 0);
+}
+
+/**
+ * Check a board against the quality floor for hand-made puzzles.
+ * Returns the reasons it falls short (empty when it is good enough).
+ */
+export function checkQuality(stats: PuzzleStats, size: BoardSize): string[] {
+    const scale = (size * size) / 16;
+    const reasons: string[] = [];
+
+    if (stats.wordCount < QUALITY_FLOOR.minWords * scale) reasons.push('too few words');
+    if (stats.totalPoints < QUALITY_FLOOR.minPoints * scale) reasons.push('too few points');
+    if (stats.longestWord < QUALITY_FLOOR.minLongestWord) reasons.push('no long words');
+
+    return reasons;
+}
+
+/**
+ * Get the scheduled difficulty for a dailyId (YYYY-MM-DD)
+ */
+export function getScheduledDifficulty(dailyId: string): Difficulty {
+    const date = new Date(`${dailyId}T00:00:00Z`);
+    if (isNaN(date.getTime())) return 'medium';
+    return WEEKLY_SCHEDULE[date.getUTCDay()] ?? 'medium';
+}
@@ -0,0 +1,230 @@
+import { redis } from '@devvit/web/server';
+import { GameGrid, GridPosition, PuzzleRef } from '../../shared/types/api';
+import { GameStorage } from './storage';
+import { WordListService } from './wordlists';
+import { DictionaryService } from './dictionary';
+import { BoardSolver, WordOverlay } from './solver';
+import { scoreWord } from './rarity';
+import { scopedKey } from './keys';
+
+// Key prefixes for Redis storage
+const KEYS = {
+    DISPUTES: 'disputes',       // Per puzzle: hash of word to number of players disputing it
+    OPEN: 'disputes:open',      // Sorted set of post IDs with open disputes, by latest dispute
+} as const;
+
+// Per puzzle, under the DISPUTES prefix:
+//   attempts          hash of word to number of players the dictionary turned down for it
+//   disputers         hash of "WORD:username" for each player who disputed a word
+//   word:{WORD}       hash of username to the attempt, for every player who tried the word
+//                     in a game; a ranked game's attempt replaces a practice one
+
+const ONE_DAY = 86400;
+
+export interface DisputeSummary {
+    postId: string;
+    dailyId: string;
+    word: string;
+    players: number;   // Players who tried the word
+    disputes: number;  // Players who asked for it to count
+}
+
+export interface DisputeResolution {
+    word: string;
+    players: number;   // Players who tried the word
+    refunded: number;  // Players whose ranked score was raised
+}
+
+interface StoredAttempt {
+    path: GridPosition[];
+    attemptedAt: number;
+    sessionToken?: string;  // Session the word was tried in; unset on attempts stored before it was kept
+}
+
+/**
+ * Words players think should have counted, kept per puzzle for moderators
+ * to approve or reject
+ */
+export class DisputeService {
+    private static countsKey(postId: string): string {
+        return scopedKey(KEYS.DISPUTES, postId);
+    }
+
+    private static attemptsKey(postId: string): string {
+        return scopedKey(KEYS.DISPUTES, postId, 'attempts');
+    }
+
+    private static disputersKey(postId: string): string {
+        return scopedKey(KEYS.DISPUTES, postId, 'disputers');
+    }
+
+    private static playersKey(postId: string, word: string): string {
+        return scopedKey(KEYS.DISPUTES, postId, 'word', word);
+    }
+
+    /**
+     * Check that a rejected word can be disputed: it must not be blocked, and
+     * the path must trace it on the board. Returns why not, or null if it can.
+     */
+    static checkDisputable(puzzle: GameGrid, word: string, path: GridPosition[], overlay: WordOverlay): string | null {
+        if (overlay.blocked.has(word)) return 'That word is blocked on this subreddit';
+        if (DictionaryService.validatePath(path, word, puzzle)) return 'That word is not on the board';
+        return null;
+    }
+
+    /**
+     * Record that the dictionary turned down a word a player traced on the
+     * board during a game, so the player is refunded if the word is approved
+     * later and it was their ranked game. Each player counts once per word.
+     * Returns how many players have tried it.
+     */
+    static async recordAttempt(
+        puzzle: PuzzleRef,
+        username: string,
+        word: string,
+        path: GridPosition[],
+        sessionToken: string
+    ): Promise<number> {
+        const attemptsKey = this.attemptsKey(puzzle.postId);
+        const playersKey = this.playersKey(puzzle.postId, word);
+        const stored: StoredAttempt = { path, attemptedAt: Date.now(), sessionToken };
+        const attempt = JSON.stringify(stored);
+
+        const added = await redis.hSetNX(playersKey, username, attempt);
+        const players = added === 1
+            ? await redis.hIncrBy(attemptsKey, word, 1)
+            : parseInt((await redis.hGet(attemptsKey, word)) ?? '1') || 1;
+        // A practice round may have tried the word first; the ranked game's attempt is the one refunded
+        if (added === 0 && await GameStorage.getRankedSession(puzzle.postId, username) === sessionToken) {
+            await redis.hSet(playersKey, { [username]: attempt });
+        }
+
+        const retention = (await GameStorage.getRetentionDays()) * ONE_DAY;
+        await Promise.all([
+            redis.expire(attemptsKey, retention),
+            redis.expire(playersKey, retention)
+        ]);
+        return players;
+    }
+
+    /**
+     * Record a player's dispute of a word, which puts it in front of the
+     * moderators. Each player counts once per word. Disputing isn't an attempt:
+     * only words tried in a game are refunded. Returns how many players have
+     * tried and disputed the word on this puzzle.
+     */
+    static async submit(puzzle: PuzzleRef, username: string, word: string): Promise<{ players: number; disputes: number }> {
+        const countsKey = this.countsKey(puzzle.postId);
+        const disputersKey = this.disputersKey(puzzle.postId);
+
+        const now = Date.now();
+        const added = await redis.hSetNX(disputersKey, `${word}:${username}`, now.toString());
+        const disputes = added === 1
+            ? await redis.hIncrBy(countsKey, word, 1)
+            : parseInt((await redis.hGet(countsKey, word)) ?? '1') || 1;
+
+        await redis.zAdd(scopedKey(KEYS.OPEN), { member: puzzle.postId, score: now });
+        const retention = (await GameStorage.getRetentionDays()) * ONE_DAY;
+        const [players] = await Promise.all([
+            redis.hGet(this.attemptsKey(puzzle.postId), word),
+            redis.expire(countsKey, retention),
+            redis.expire(disputersKey, retention)
+        ]);
+        return { players: Math.max(parseInt(players ?? '0') || 0, disputes), disputes };
+    }
+
+    /**
+     * List open disputes, newest puzzles first and most-disputed words first
+     * within a puzzle. Puzzles whose disputes have expired are dropped.
+     */
+    static async listOpen(limit: number = 25): Promise<DisputeSummary[]> {
+        const openKey = scopedKey(KEYS.OPEN);
+        const posts = await redis.zRange(openKey, 0, -1, { by: 'rank', reverse: true });
+
+        const summaries: DisputeSummary[] = [];
+        for (const { member: postId } of posts) {
+            if (summaries.length >= limit) break;
+
+            const [counts, attempts, puzzle] = await Promise.all([
+                redis.hGetAll(this.countsKey(postId)),
+                redis.hGetAll(this.attemptsKey(postId)),
+                GameStorage.getPuzzle(postId)
+            ]);
+            const words = Object.entries(counts ?? {});
+            if (words.length === 0 || !puzzle) {
+                await redis.zRem(openKey, [postId]);
+                continue;
+            }
+
+            words
+                .map(([word, count]) => {
+                    const disputes = parseInt(count) || 0;
+                    const players = Math.max(parseInt(attempts?.[word] ?? '0') || 0, disputes);
+                    return { postId, dailyId: puzzle.dailyId, word, players, disputes };
+                })
+                .sort((a, b) => b.disputes - a.disputes || b.players - a.players || a.word.localeCompare(b.word))
+                .forEach(summary => summaries.push(summary));
+        }
+        return summaries.slice(0, limit);
+    }
+
+    /**
+     * Close a dispute, returning every player who tried the word with their
+     * attempt. Only the first caller gets the players, so a word is never
+     * resolved twice.
+     */
+    private static async close(postId: string, word: string): Promise<[string, StoredAttempt][]> {
+        const countsKey = this.countsKey(postId);
+        const removed = await redis.hDel(countsKey, [word]);
+        if (removed === 0) return [];
+
+        const playersKey = this.playersKey(postId, word);
+        const players = Object.entries((await redis.hGetAll(playersKey)) ?? {})
+            .map(([username, attempt]): [string, StoredAttempt] => [username, JSON.parse(attempt)]);
+        await Promise.all([
+            redis.del(playersKey),
+            redis.hDel(this.attemptsKey(postId), [word])
+        ]);
+
+        const remaining = await redis.hGetAll(countsKey);
+        if (Object.keys(remaining ?? {}).length === 0) {
+            await redis.zRem(scopedKey(KEYS.OPEN), [postId]);
+        }
+        return players;
+    }
+
+    /**
+     * Approve a disputed word: allow it for the subreddit and give its points
+     * to every player who tried it in their ranked game on this puzzle.
+     * The points follow the puzzle's scoring model.
+     */
+    static async approve(puzzle: GameGrid & PuzzleRef, word: string): Promise<DisputeResolution> {
+        // The word lists may have changed since the dispute, and approving must never unblock a word
+        if (!BoardSolver.findPath(puzzle.grid, word)) {
+            throw new Error(`${word} can't be formed on this board; reject it instead`);
+        }
+        const overlay = await WordListService.getOverlay();
+        if (overlay.blocked.has(word)) {
+            throw new Error(`${word} is on the blocklist; remove it there first`);
+        }
+
+        const players = await this.close(puzzle.postId, word);
+        await WordListService.add('allowed', [word]);
+
+        const { score: points } = await scoreWord(word, puzzle);
+        const refunds = await Promise.all(players.map(async ([username, attempt]) => {
+            const rankedSession = await GameStorage.getRankedSession(puzzle.postId, username);
+            if (!attempt.sessionToken || attempt.sessionToken !== rankedSession) return false;
+            return GameStorage.refundWord(puzzle, username, word, points);
+        }));
+        return { word, players: players.length, refunded: refunds.filter(Boolean).length };
+    }
+
+    /**
+     * Reject a disputed word, leaving the dictionary as it is
+     */
+    static async reject(postId: string, word: string): Promise<DisputeResolution> {
+        const players = await this.close(postId, word);
+        return { word, players: players.length, refunded: 0 };
+    }
+}
@@ -1,314 +1,214 @@
-import { readFile } from 'fs/promises';
-import { join } from 'path';
-import { GameStorage } from './storage';
-import { GameGrid } from '../../shared/types/api';
+import { settings } from '@devvit/web/server';
+import { createSeededRandom, getPuzzleSeed, RandomSource } from './random';
+import { DictionaryService } from './dictionary';
+import { BoardSolver, WordOverlay } from './solver';
+import { WordListService } from './wordlists';
+import {
+    checkDifficulty,
+    classifyDifficulty,
+    computePuzzleStats,
+    getScheduledDifficulty,
+    PuzzleGenerationError
+} from './difficulty';
+import { DEFAULT_PROFILE, generateBalancedLetterSet, GeneratorProfile, getGeneratorProfile, Tile } from './profiles';
+import { BoardSize, Difficulty, GameGrid, GeneratorProfileName, SolvedWord } from '../../shared/types/api';
 
 // Constants for grid generation
-const GRID_SIZE = 4;
-const VOWELS = ['A', 'E', 'I', 'O', 'U'] as const;
-const CONSONANTS = [
-    'B', 'C', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'M',
-    'N', 'P', 'Q', 'R', 'S', 'T', 'V', 'W', 'X', 'Y', 'Z'
-] as const;
-const MIN_VOWELS = 4;
-const MIN_CONSONANTS = 8;
-
-type Letter = typeof VOWELS[number] | typeof CONSONANTS[number];
-
-// Common letter frequencies in English words
-const LETTER_FREQUENCIES: Record<Letter, number> = {
-    'A': 8.2, 'B': 1.5, 'C': 2.8, 'D': 4.3, 'E': 13, 'F': 2.2, 'G': 2.0, 'H': 6.1,
-    'I': 7.0, 'J': 0.15, 'K': 0.77, 'L': 4.0, 'M': 2.4, 'N': 6.7, 'O': 7.5, 'P': 1.9,
-    'Q': 0.095, 'R': 6.0, 'S': 6.3, 'T': 9.1, 'U': 2.8, 'V': 0.98, 'W': 2.4, 'X': 0.15,
-    'Y': 2.0, 'Z': 0.074
-};
+export const DEFAULT_GRID_SIZE: BoardSize = 4;
+const MIN_VALID_WORDS = 10;
+const LONG_WORD_LENGTH = 6;  // Boards need at least one unblocked word this long, if they have any
+const MAX_GENERATION_ATTEMPTS = 200;
+
+const DIGRAPH_SETTING = 'digraphTiles';
+const PROFILE_SETTING = 'generatorProfile';
+
+export interface PuzzleOptions {
+    dailyId?: string;   // Defaults to today's UTC date
+    salt?: string;      // Optional extra seed input, e.g. the subreddit name
+    size?: BoardSize;   // Defaults to a 4x4 board
+    difficulty?: Difficulty;  // Defaults to the weekly schedule for the dailyId
+    digraphs?: boolean; // Allow two-letter tiles such as "Th" and "Er"
+    profile?: GeneratorProfileName;  // How letters are drawn; defaults to letter frequency
+    overlay?: WordOverlay;  // Subreddit blocklist and allowlist to solve with
+}
+
+// How typed letters are laid out: row by row, or snaking back and forth so
+// consecutive letters stay adjacent and a phrase can be traced on the board
+export type CustomLayout = 'rows' | 'snake';
+
+export interface CustomPuzzleOptions {
+    dailyId?: string;   // Defaults to today's UTC date
+    layout?: CustomLayout;
+    title?: string;     // Shown in the post title instead of the board label
+    overlay?: WordOverlay;
+}
+
+export interface GeneratedPuzzle {
+    gridData: GameGrid;
+    solution: SolvedWord[];
+}
+
+/**
+ * Generator options chosen per subreddit in the app settings
+ */
+export async function getSubredditPuzzleOptions(): Promise<Pick<PuzzleOptions, 'digraphs' | 'profile' | 'overlay'>> {
+    const [digraphs, profile, overlay] = await Promise.all([
+        settings.get<boolean>(DIGRAPH_SETTING),
+        settings.get<string[] | string>(PROFILE_SETTING),
+        WordListService.getOverlay()
+    ]);
+    // Select settings come back as an array of the chosen values
+    const profileName = Array.isArray(profile) ? profile[0] : profile;
+    return { digraphs: digraphs === true, profile: getGeneratorProfile(profileName).name, overlay };
+}
 
 export class GridGenerator {
-    private static scrabbleWords: Set<string>;
-
-    static async initialize(): Promise<void> {
-        try {
-            // Load official Scrabble word list
-            const scrabbleData = await readFile(join(__dirname, '../../../data/scrabble.txt'), 'utf-8');
-            this.scrabbleWords = new Set(scrabbleData.split('\n').map(word => word.trim().toUpperCase()));
-        } catch (error) {
-            console.error('Failed to load dictionary:', error);
-            throw new Error('Dictionary initialization failed');
-        }
+    /**
+     * Generate a random grid. Pass a seeded random source for a reproducible board.
+     */
+    static generateGrid(
+        rng: RandomSource = Math.random,
+        size: BoardSize = DEFAULT_GRID_SIZE,
+        profile: GeneratorProfile = getGeneratorProfile(DEFAULT_PROFILE),
+        digraphs: boolean = false
+    ): Tile[][] {
+        const tiles = profile.drawTiles(rng, size * size, digraphs);
+        return Array.from({ length: size }, (_, row) => tiles.slice(row * size, (row + 1) * size));
     }
 
-    static generateGrid(): Letter[][] {
-        // Initialize empty grid with explicit typing
-        const grid: Letter[][] = Array.from(
-            { length: GRID_SIZE },
-            () => Array.from<Letter>(
-                { length: GRID_SIZE }
-            ).fill('A')
-        );
-
-        const letters = this.generateBalancedLetterSet();
-        this.placeLettersInGrid(letters, grid);
-        return grid;
+    /**
+     * Solve a board, returning every word with an example path and its score
+     */
+    static solveGrid(grid: string[][], overlay?: WordOverlay): SolvedWord[] {
+        return BoardSolver.solve(grid, DictionaryService.getTrie(), undefined, overlay);
     }
 
-    private static generateBalancedLetterSet(): Letter[] {
-        const letters: Letter[] = [];
-        
-        // Track letter distributions
-        const vowelDist = new Map(VOWELS.map(v => [v, LETTER_FREQUENCIES[v]]));
-        const consDist = new Map(CONSONANTS.map(c => [c, LETTER_FREQUENCIES[c]]));
-        
-        // Add minimum vowels
-        for (let i = 0; i < MIN_VOWELS; i++) {
-            const vowel = this.weightedRandomChoice(
-                Array.from(vowelDist.keys()),
-                letter => vowelDist.get(letter) ?? 0
-            );
-            letters.push(vowel);
-            vowelDist.set(vowel, (vowelDist.get(vowel) ?? 0) * 0.5);
-        }
-        
-        // Add minimum consonants
-        for (let i = 0; i < MIN_CONSONANTS; i++) {
-            const cons = this.weightedRandomChoice(
-                Array.from(consDist.keys()),
-                letter => consDist.get(letter) ?? 0
-            );
-            letters.push(cons);
-            consDist.set(cons, (consDist.get(cons) ?? 0) * 0.5);
-        }
-        
-        // Fill remaining spots
-        const remaining = (GRID_SIZE * GRID_SIZE) - letters.length;
-        const allDist = new Map([...vowelDist, ...consDist]);
-        
-        for (let i = 0; i < remaining; i++) {
-            const letter = this.weightedRandomChoice(
-                Array.from(allDist.keys()),
-                letter => allDist.get(letter) ?? 0
-            );
-            letters.push(letter);
-            allDist.set(letter, (allDist.get(letter) ?? 0) * 0.7);
-        }
-        
-        return letters;
+    static findValidWords(grid: string[][]): Set<string> {
+        return new Set(this.solveGrid(grid).map(solved => solved.word));
     }
 
-    private static placeLettersInGrid(letters: Letter[], grid: Letter[][]): void {
-        let attempts = 0;
-        const maxAttempts = 10;
-
-        do {
-            this.shuffleArray(letters);
-            attempts++;
-
-            let validPlacement = true;
-            for (let i = 0; i < GRID_SIZE && validPlacement; i++) {
-                const row = grid[i];
-                if (!row) continue;
-
-                for (let j = 0; j < GRID_SIZE && validPlacement; j++) {
-                    const index = i * GRID_SIZE + j;
-                    const letter = letters[index];
-                    if (!letter) continue;
-                    
-                    if (this.isValidPlacement(grid, i, j, letter)) {
-                        row[j] = letter;
-                    } else {
-                        validPlacement = false;
-                    }
-                }
-            }
-
-            if (validPlacement) {
-                break;
-            }
-
-            // Reset grid if placement was invalid
-            for (const row of grid) {
-                if (row) {
-                    row.fill('A');
-                }
-            }
-        } while (attempts < maxAttempts);
-
-        // If we couldn't generate a valid grid after max attempts,
-        // try generating a new set of letters
-        if (attempts >= maxAttempts) {
-            const newLetters = this.generateBalancedLetterSet();
-            this.placeLettersInGrid(newLetters, grid);
-        }
+    static isValidWord(word: string): boolean {
+        return word.length >= 3 && DictionaryService.isValidWord(word);
     }
 
-    private static isValidPlacement(
-        grid: Letter[][], 
-        row: number, 
-        col: number, 
-        letter: Letter
-    ): boolean {
-        if (row < 0 || row >= grid.length || col < 0) return false;
-        
-        const currentRow = grid[row];
-        if (!currentRow || col >= currentRow.length) return false;
-
-        // Check horizontal triplets
-        if (col >= 2) {
-            const leftTwo = currentRow[col-2];
-            const leftOne = currentRow[col-1];
-            if (leftTwo === letter && leftOne === letter) {
-                return false;
+    /**
+     * Build the puzzle for a dailyId without storing it. The board is derived
+     * entirely from the dailyId and options, so a lost puzzle can be regenerated exactly.
+     * Throws a PuzzleGenerationError if no board fits the difficulty band.
+     */
+    static generatePuzzle(dailyId: string, options: Omit<PuzzleOptions, 'dailyId'> = {}): GeneratedPuzzle {
+        const size = options.size ?? DEFAULT_GRID_SIZE;
+        const profile = getGeneratorProfile(options.profile);
+        const difficulty = options.difficulty ?? profile.difficulty ?? getScheduledDifficulty(dailyId);
+
+        // Larger boards get their own seed so they don't share letters with the daily 4x4
+        const baseSeed = getPuzzleSeed(dailyId, options.salt);
+        const sizedSeed = size === DEFAULT_GRID_SIZE ? baseSeed : `${baseSeed}:${size}x${size}`;
+        const profileSeed = profile.name === DEFAULT_PROFILE ? sizedSeed : `${sizedSeed}:${profile.name}`;
+        const seed = options.digraphs ? `${profileSeed}:digraphs` : profileSeed;
+        const rng = createSeededRandom(seed);
+
+        // Rejection sampling: keep drawing from the same sequence until a board fits
+        const reasons: Record<string, number> = {};
+        for (let attempt = 0; attempt < MAX_GENERATION_ATTEMPTS; attempt++) {
+            const letters = this.generateGrid(rng, size, profile, options.digraphs);
+            const fullSolution = this.solveGrid(letters);
+            const solution = options.overlay
+                ? BoardSolver.applyOverlay(letters, fullSolution, options.overlay)
+                : fullSolution;
+            const stats = computePuzzleStats(solution);
+
+            const misses = checkDifficulty(stats, difficulty, size);
+            if (solution.length < MIN_VALID_WORDS) {
+                misses.push('too few words');
             }
-        }
-        
-        // Check vertical triplets
-        if (row >= 2) {
-            const upTwo = grid[row-2]?.[col];
-            const upOne = grid[row-1]?.[col];
-            if (upTwo === letter && upOne === letter) {
-                return false;
+            const longWords = fullSolution.filter(solved => solved.word.length >= LONG_WORD_LENGTH);
+            if (options.overlay && longWords.length > 0
+                && longWords.every(solved => options.overlay?.blocked.has(solved.word))) {
+                misses.push('long words blocked');
             }
-        }
-        
-        return true;
-    }
 
-    static findValidWords(grid: Letter[][]): Set<string> {
-        const validWords = new Set<string>();
-        const visited: boolean[][] = Array.from(
-            { length: GRID_SIZE }, 
-            () => new Array<boolean>(GRID_SIZE).fill(false)
-        );
+            if (misses.length === 0) {
+                return {
+                    gridData: {
+                        grid: letters,
+                        size,
+                        dailyId,
+                        date: dailyId,
+                        seed,
+                        difficulty,
+                        profile: profile.name,
+                        stats,
+                        dictionaryVersion: DictionaryService.getVersion()
+                    },
+                    solution
+                };
+            }
 
-        for (let row = 0; row < GRID_SIZE; row++) {
-            for (let col = 0; col < GRID_SIZE; col++) {
-                if (grid[row]?.[col]) {
-                    this.findWordsFromCell(grid, row, col, '', visited, validWords);
-                }
+            for (const miss of misses) {
+                reasons[miss] = (reasons[miss] ?? 0) + 1;
             }
         }
 
-        return validWords;
+        throw new PuzzleGenerationError(difficulty, MAX_GENERATION_ATTEMPTS, reasons);
     }
 
-    static isValidWord(word: string): boolean {
-        return word.length >= 3 && this.scrabbleWords.has(word.toUpperCase());
-    }
-
-    static async generateDailyPuzzle(): Promise<void> {
-        const letters = this.generateGrid();
-        const validWords = this.findValidWords(letters);
-
-        // Regenerate if too few valid words
-        if (validWords.size < 10) {
-            return this.generateDailyPuzzle();
-        }
-
-        const todayDate = new Date().toISOString().split('T')[0];
-        if (!todayDate) {
+    /**
+     * Build a puzzle, defaulting the dailyId to today's UTC date.
+     * Storing it is up to the caller, once the post that hosts it exists.
+     */
+    static createPuzzle(options: PuzzleOptions = {}): GeneratedPuzzle {
+        const dailyId = options.dailyId ?? new Date().toISOString().split('T')[0];
+        if (!dailyId) {
             throw new Error('Failed to generate date for puzzle');
         }
 
-        const gridData: GameGrid = {
-            grid: letters,
-            dailyId: todayDate,
-            date: todayDate
-        };
-
-        // Store in Redis
-        await GameStorage.resetDailyData();
-        await Promise.all([
-            GameStorage.setDailyGrid(gridData),
-            GameStorage.setDailyWords(validWords)
-        ]);
-    }
-
-    private static findWordsFromCell(
-        grid: Letter[][],
-        row: number,
-        col: number,
-        currentWord: string,
-        visited: boolean[][],
-        validWords: Set<string>
-    ): void {
-        if (row < 0 || row >= GRID_SIZE || col < 0 || col >= GRID_SIZE) {
-            return;
-        }
-
-        const currentRow = grid[row];
-        const visitedRow = visited[row];
-        if (!currentRow || !visitedRow) {
-            return;
-        }
-
-        const cell = currentRow[col];
-        if (!cell || visitedRow[col]) {
-            return;
-        }
-
-        visitedRow[col] = true;
-        const newWord = currentWord + cell;
-
-        if (newWord.length >= 3 && this.isValidWord(newWord)) {
-            validWords.add(newWord);
-        }
-
-        // Check all adjacent cells
-        for (let i = -1; i <= 1; i++) {
-            for (let j = -1; j <= 1; j++) {
-                if (i === 0 && j === 0) continue;
-                
-                const newRow = row + i;
-                const newCol = col + j;
-
-                if (newRow >= 0 && newRow < GRID_SIZE &&
-                    newCol >= 0 && newCol < GRID_SIZE &&
-                    visited[newRow] &&
-                    grid[newRow]?.[newCol] &&
-                    !visited[newRow][newCol]) {
-                    this.findWordsFromCell(grid, newRow, newCol, newWord, visited, validWords);
-                }
-            }
-        }
-
-        visitedRow[col] = false;
+        return this.generatePuzzle(dailyId, options);
     }
 
-    private static weightedRandomChoice<T extends Letter>(
-        items: ReadonlyArray<T>,
-        weightFn: (item: T) => number
-    ): T {
-        if (items.length === 0) {
-            throw new Error('Cannot make a choice from an empty array');
-        }
+    /**
+     * Build a puzzle from letters a moderator typed in. Anything but A-Z is
+     * dropped and "QU" makes a single "Qu" tile. The board is the smallest size
+     * that fits, and a short phrase is padded with balanced letters seeded from
+     * the text. Quality checks are up to the caller (see checkQuality).
+     */
+    static buildCustomPuzzle(text: string, options: CustomPuzzleOptions = {}): GeneratedPuzzle {
+        const letters: string[] = (text.toUpperCase().replace(/[^A-Z]/g, '').match(/QU|[A-Z]/g) ?? [])
+            .map(tile => tile === 'QU' ? 'Qu' : tile);
+        const sizes: BoardSize[] = [4, 5, 6];
+        const size = sizes.find(candidate => candidate * candidate >= letters.length);
+        if (letters.length === 0 || !size) {
+            throw new Error(`Enter between 1 and 36 tiles (got ${letters.length})`);
+        }
+
+        const padding = size * size - letters.length;
+        if (padding > 0) {
+            const rng = createSeededRandom(`custom:${letters.join('')}`);
+            letters.push(...generateBalancedLetterSet(rng, padding));
+        }
+
+        const grid: string[][] = Array.from({ length: size }, (_, row) => {
+            const cells = letters.slice(row * size, (row + 1) * size);
+            return options.layout === 'snake' && row % 2 === 1 ? cells.reverse() : cells;
+        });
+
+        const dailyId = options.dailyId ?? new Date().toISOString().split('T')[0] ?? '';
+        const solution = this.solveGrid(grid, options.overlay);
+        const stats = computePuzzleStats(solution);
+        const gridData: GameGrid = {
+            grid,
+            size,
+            dailyId,
+            date: dailyId,
+            stats,
+            dictionaryVersion: DictionaryService.getVersion()
+        };
 
-        const weights = Array.from(items, weightFn);
-        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-        let random = Math.random() * totalWeight;
-        
-        for (let i = 0; i < items.length; i++) {
-            const item = items[i];
-            if (item === undefined) continue;
-            random -= weights[i] ?? 0;
-            if (random <= 0) {
-                return item;
-            }
-        }
-        
-        const firstItem = items[0];
-        if (firstItem === undefined) {
-            throw new Error('No valid items found');
-        }
-        return firstItem;
-    }
+        const difficulty = classifyDifficulty(stats, size);
+        if (difficulty) gridData.difficulty = difficulty;
+        const title = options.title?.trim();
+        if (title) gridData.title = title;
 
-    private static shuffleArray<T>(array: T[]): void {
-        for (let i = array.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            const temp = array[i];
-            if (temp !== undefined && array[j] !== undefined) {
-                array[i] = array[j] as T;
-                array[j] = temp;
-            }
-        }
+        return { gridData, solution };
     }
-}
\ No newline at end of file
+}
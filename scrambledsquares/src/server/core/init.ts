@@ -1,14 +1,10 @@
 import { GameStorage } from './storage';
-import { GridGenerator } from './grid';
 import { DictionaryService } from './dictionary';
 
 export async function initializeServices(): Promise<void> {
     try {
         // Initialize core services
-        await Promise.all([
-            DictionaryService.initialize(),
-            GridGenerator.initialize()
-        ]);
+        await DictionaryService.initialize();
 
         // Verify Redis connection
         await GameStorage.verifyConnection();
@@ -0,0 +1,11 @@
+import { context } from '@devvit/web/server';
+
+const NAMESPACE = 'scrambled';
+
+/**
+ * Build a Redis key in the current subreddit's namespace, e.g.
+ * scopedKey('puzzle', postId, 'grid') -> scrambled:{subreddit}:puzzle:{postId}:grid
+ */
+export function scopedKey(...parts: Array<string | number>): string {
+    return [NAMESPACE, context.subredditName ?? 'global', ...parts].join(':');
+}
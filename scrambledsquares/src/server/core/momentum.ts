@@ -0,0 +1,71 @@
+import { RandomSource } from './random';
+import { FoundWord, SolvedWord, WordMomentum, WordScoreBreakdown } from '../../shared/types/api';
+
+// Combos: each word found within the window of the last one raises the multiplier
+const COMBO_WINDOW_MS = 5000;
+const COMBO_STEP = 0.25;
+const MAX_COMBO_MULTIPLIER = 2;
+
+// Long words add time to the clock, up to a limit per game
+const BONUS_SECONDS: { minLength: number; seconds: number }[] = [
+    { minLength: 8, seconds: 5 },
+    { minLength: 7, seconds: 3 },
+    { minLength: 6, seconds: 2 },
+];
+const MAX_BONUS_SECONDS = 20;
+
+// The bonus word of the day pays this many times its points
+const BONUS_WORD_MULTIPLIER = 3;
+const BONUS_WORD_MIN_LENGTH = 5;
+const BONUS_WORD_MAX_LENGTH = 7;
+
+/**
+ * Work out the momentum of a word found at `foundAt`, from the words already
+ * found in the session. `bonusSecondsSoFar` is the time the session has
+ * already earned, so the per-game limit holds.
+ */
+export function getMomentum(word: string, previous: FoundWord[], foundAt: number, bonusSecondsSoFar: number): WordMomentum {
+    let combo = 1;
+    for (let i = previous.length - 1, next = foundAt; i >= 0; i--) {
+        const found = previous[i];
+        if (!found || next - found.foundAt > COMBO_WINDOW_MS) break;
+        combo++;
+        next = found.foundAt;
+    }
+
+    const earned = BONUS_SECONDS.find(bonus => word.length >= bonus.minLength)?.seconds ?? 0;
+    return {
+        combo,
+        comboMultiplier: Math.min(1 + (combo - 1) * COMBO_STEP, MAX_COMBO_MULTIPLIER),
+        comboWindowMs: COMBO_WINDOW_MS,
+        bonusSeconds: Math.max(0, Math.min(earned, MAX_BONUS_SECONDS - bonusSecondsSoFar))
+    };
+}
+
+/**
+ * Fold the combo multiplier and the bonus word payout into a word's score
+ */
+export function applyMomentum(
+    breakdown: WordScoreBreakdown,
+    momentum: WordMomentum,
+    bonusWord: boolean
+): WordScoreBreakdown {
+    const combo = momentum.comboMultiplier;
+    const payout = bonusWord ? BONUS_WORD_MULTIPLIER : 1;
+    return {
+        ...breakdown,
+        score: Math.round(breakdown.base * breakdown.multiplier * combo * payout),
+        ...(combo > 1 && { combo }),
+        ...(bonusWord && { bonusWord })
+    };
+}
+
+/**
+ * Pick a puzzle's bonus word from the mid-length words on the board.
+ * Returns undefined if the board has none.
+ */
+export function pickBonusWord(solution: SolvedWord[], rng: RandomSource = Math.random): string | undefined {
+    const candidates = solution.filter(solved =>
+        solved.word.length >= BONUS_WORD_MIN_LENGTH && solved.word.length <= BONUS_WORD_MAX_LENGTH);
+    return candidates[Math.floor(rng() * candidates.length)]?.word;
+}
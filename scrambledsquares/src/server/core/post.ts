@@ -1,8 +1,26 @@
 import { reddit, context } from "@devvit/web/server";
 import { GameStorage } from "./storage";
-import { GridGenerator } from "./grid.js";
+import { DEFAULT_GRID_SIZE, GeneratedPuzzle, GridGenerator, getSubredditPuzzleOptions } from "./grid.js";
+import { getSubredditScoring } from "./scoring";
+import { computePuzzleStats } from "./difficulty";
+import { pickBonusWord } from "./momentum";
+import { BoardSize } from "../../shared/types/api";
 
-export const createPost = async () => {
+const BOARD_LABELS: Record<BoardSize, string> = {
+  4: "Daily Puzzle",
+  5: "Big 5x5 Puzzle",
+  6: "Super 6x6 Puzzle",
+};
+
+export interface CreatePostOptions {
+  size?: BoardSize;
+  daily?: boolean;  // Becomes the subreddit's current daily puzzle; defaults to true for 4x4 boards
+  puzzle?: GeneratedPuzzle;  // Post an already generated puzzle instead of making one
+}
+
+export const createPost = async (options: CreatePostOptions = {}) => {
+  const size = options.puzzle?.gridData.size ?? options.size ?? DEFAULT_GRID_SIZE;
+  const daily = options.daily ?? size === DEFAULT_GRID_SIZE;
   const { subredditName } = context;
   if (!subredditName) {
     console.error("Failed to create post: subredditName is missing from context");
@@ -10,44 +28,52 @@ export const createPost = async () => {
   }
 
   try {
-    // Generate today's puzzle
+    // Generate today's puzzle (unless one was passed in); it is stored under the post once the post exists
     console.log(`Generating daily puzzle for r/${subredditName}...`);
-    await GridGenerator.generateDailyPuzzle();
-    
-    // Get the stored grid for post preview
-    const grid = await GameStorage.getDailyGrid();
-    if (!grid) {
-      throw new Error("Failed to generate or retrieve daily grid");
-    }
+    const { gridData, solution } = options.puzzle ?? GridGenerator.createPuzzle({
+      salt: subredditName,
+      size,
+      ...await getSubredditPuzzleOptions()
+    });
 
     // Create the post with proper metadata
-    const currentDate = new Date();
-    const dailyId = `${currentDate.getFullYear()}${String(currentDate.getMonth() + 1).padStart(2, '0')}${String(currentDate.getDate()).padStart(2, '0')}`;
-    
+    const { dailyId } = gridData;
+
     console.log(`Creating Reddit post for dailyId: ${dailyId}...`);
     const post = await reddit.submitCustomPost({
       splash: {
         appDisplayName: "Scrambled Squares",
-        description: "Find words in a 4x4 grid before time runs out!",
+        description: `Find words in a ${size}x${size} grid before time runs out!`,
       },
       subredditName,
-      title: `[Daily Puzzle #${dailyId}] Scrambled Squares - Word Hunt Game`,
+      title: `[${gridData.title ?? BOARD_LABELS[size]} #${dailyId}] Scrambled Squares - Word Hunt Game`,
       postData: {
         dailyId,
+        size,
         version: "1.0.0"
       }
     });
 
-    // Reset and initialize today's data
-    await GameStorage.resetDailyData();
-
-    // Initialize leaderboard structure with initial values
-    await GameStorage.updateLeaderboard(
-      'system',  // placeholder user
-      0,         // initial score
-      [],        // no words found
-      0          // no time elapsed
-    );
+    // The puzzle keeps the scoring it was posted with, even if the settings change,
+    // and its stats are totalled under those rules.
+    // Only the bonus word's length goes in the grid; the word itself stays secret.
+    const scoring = await getSubredditScoring();
+    const bonusWord = pickBonusWord(solution);
+    if (bonusWord) {
+      await GameStorage.saveBonusWord(post.id, bonusWord);
+    }
+    await GameStorage.savePuzzle(post.id, {
+      ...gridData,
+      ...scoring,
+      stats: computePuzzleStats(solution, scoring.scoringRules),
+      ...(bonusWord && { bonusWordLength: bonusWord.length })
+    }, solution);
+    // A daily post made from the menu or on install counts as the day's rollover,
+    // so the hourly run doesn't post a second one and close this one's leaderboard
+    if (daily) {
+      await GameStorage.setCurrentDailyPost(post.id);
+      await GameStorage.setRolloverPost(dailyId, post.id);
+    }
 
     // Flair will be handled by default styling via devvit.json
 
@@ -0,0 +1,225 @@
+import { RandomSource } from './random';
+import { Difficulty, GeneratorProfileName } from '../../shared/types/api';
+
+const VOWELS = ['A', 'E', 'I', 'O', 'U'] as const;
+// Q only comes as a "Qu" tile, since a bare Q almost never makes a word
+const CONSONANTS = [
+    'B', 'C', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'M',
+    'N', 'P', 'Qu', 'R', 'S', 'T', 'V', 'W', 'X', 'Y', 'Z'
+] as const;
+// Optional two-letter tiles for common English digraphs
+const DIGRAPHS = ['Th', 'Er', 'In', 'He', 'An'] as const;
+
+// A board cell: usually one letter, sometimes several (e.g. "Qu")
+export type Tile = typeof VOWELS[number] | typeof CONSONANTS[number] | typeof DIGRAPHS[number];
+
+// Common letter frequencies in English words
+const LETTER_FREQUENCIES: Record<Tile, number> = {
+    'A': 8.2, 'B': 1.5, 'C': 2.8, 'D': 4.3, 'E': 13, 'F': 2.2, 'G': 2.0, 'H': 6.1,
+    'I': 7.0, 'J': 0.15, 'K': 0.77, 'L': 4.0, 'M': 2.4, 'N': 6.7, 'O': 7.5, 'P': 1.9,
+    'Qu': 0.095, 'R': 6.0, 'S': 6.3, 'T': 9.1, 'U': 2.8, 'V': 0.98, 'W': 2.4, 'X': 0.15,
+    'Y': 2.0, 'Z': 0.074,
+    'Th': 1.5, 'Er': 1.2, 'In': 1.2, 'He': 1.0, 'An': 1.0
+};
+
+// Classic 16-dice set, one die per cell of a 4x4 board
+const CLASSIC_DICE: readonly (readonly Tile[])[] = [
+    ['A', 'A', 'E', 'E', 'G', 'N'], ['A', 'B', 'B', 'J', 'O', 'O'],
+    ['A', 'C', 'H', 'O', 'P', 'S'], ['A', 'F', 'F', 'K', 'P', 'S'],
+    ['A', 'O', 'O', 'T', 'T', 'W'], ['C', 'I', 'M', 'O', 'T', 'U'],
+    ['D', 'E', 'I', 'L', 'R', 'X'], ['D', 'E', 'L', 'R', 'V', 'Y'],
+    ['D', 'I', 'S', 'T', 'T', 'Y'], ['E', 'E', 'G', 'H', 'N', 'W'],
+    ['E', 'E', 'I', 'N', 'S', 'U'], ['E', 'H', 'R', 'T', 'V', 'W'],
+    ['E', 'I', 'O', 'S', 'S', 'T'], ['E', 'L', 'R', 'T', 'T', 'Y'],
+    ['H', 'I', 'M', 'N', 'Qu', 'U'], ['H', 'L', 'N', 'N', 'R', 'Z']
+];
+
+// 25-dice set for 5x5 boards
+const BIG_DICE: readonly (readonly Tile[])[] = [
+    ['A', 'A', 'A', 'F', 'R', 'S'], ['A', 'A', 'E', 'E', 'E', 'E'],
+    ['A', 'A', 'F', 'I', 'R', 'S'], ['A', 'D', 'E', 'N', 'N', 'N'],
+    ['A', 'E', 'E', 'E', 'E', 'M'], ['A', 'E', 'E', 'G', 'M', 'U'],
+    ['A', 'E', 'G', 'M', 'N', 'N'], ['A', 'F', 'I', 'R', 'S', 'Y'],
+    ['B', 'J', 'K', 'Qu', 'X', 'Z'], ['C', 'C', 'E', 'N', 'S', 'T'],
+    ['C', 'E', 'I', 'I', 'L', 'T'], ['C', 'E', 'I', 'L', 'P', 'T'],
+    ['C', 'E', 'I', 'P', 'S', 'T'], ['D', 'D', 'H', 'N', 'O', 'T'],
+    ['D', 'H', 'H', 'L', 'O', 'R'], ['D', 'H', 'L', 'N', 'O', 'R'],
+    ['D', 'H', 'L', 'N', 'O', 'R'], ['E', 'I', 'I', 'I', 'T', 'T'],
+    ['E', 'M', 'O', 'T', 'T', 'T'], ['E', 'N', 'S', 'S', 'S', 'U'],
+    ['F', 'I', 'P', 'R', 'S', 'Y'], ['G', 'O', 'R', 'R', 'V', 'W'],
+    ['I', 'P', 'R', 'R', 'R', 'Y'], ['N', 'O', 'O', 'T', 'U', 'W'],
+    ['O', 'O', 'O', 'T', 'T', 'U']
+];
+
+interface FrequencyModel {
+    minVowelRatio: number;       // Minimum share of vowels on the board
+    minConsonantRatio: number;   // Minimum share of consonants
+    excluded: readonly Tile[];   // Tiles never drawn
+}
+
+// The standard model: at least 4 vowels and 8 consonants on a 4x4
+const FREQUENCY_MODEL: FrequencyModel = {
+    minVowelRatio: 0.25,
+    minConsonantRatio: 0.5,
+    excluded: []
+};
+
+// More vowels and no awkward letters, so words are easy to spot
+const BEGINNER_MODEL: FrequencyModel = {
+    minVowelRatio: 0.375,
+    minConsonantRatio: 0.375,
+    excluded: ['J', 'K', 'Qu', 'V', 'X', 'Z']
+};
+
+export interface GeneratorProfile {
+    name: GeneratorProfileName;
+    difficulty?: Difficulty;  // Overrides the weekly schedule, for profiles that only suit one band
+    /**
+     * Draw the tiles for a board in reading order
+     */
+    drawTiles(rng: RandomSource, cellCount: number, digraphs: boolean): Tile[];
+}
+
+function weightedRandomChoice<T extends Tile>(
+    items: ReadonlyArray<T>,
+    weightFn: (item: T) => number,
+    rng: RandomSource
+): T {
+    if (items.length === 0) {
+        throw new Error('Cannot make a choice from an empty array');
+    }
+
+    const weights = Array.from(items, weightFn);
+    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+    let random = rng() * totalWeight;
+
+    for (let i = 0; i < items.length; i++) {
+        const item = items[i];
+        if (item === undefined) continue;
+        random -= weights[i] ?? 0;
+        if (random <= 0) {
+            return item;
+        }
+    }
+
+    const firstItem = items[0];
+    if (firstItem === undefined) {
+        throw new Error('No valid items found');
+    }
+    return firstItem;
+}
+
+function shuffleArray<T>(array: T[], rng: RandomSource): void {
+    for (let i = array.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        const temp = array[i];
+        if (temp !== undefined && array[j] !== undefined) {
+            array[i] = array[j] as T;
+            array[j] = temp;
+        }
+    }
+}
+
+/**
+ * Draw tiles by English letter frequency, guaranteeing a minimum number of
+ * vowels and consonants. Each draw makes the same tile less likely again.
+ */
+export function generateBalancedLetterSet(
+    rng: RandomSource,
+    cellCount: number,
+    digraphs: boolean = false,
+    model: FrequencyModel = FREQUENCY_MODEL
+): Tile[] {
+    const letters: Tile[] = [];
+    const minVowels = Math.round(cellCount * model.minVowelRatio);
+    const minConsonants = Math.round(cellCount * model.minConsonantRatio);
+    const allowed = (tile: Tile) => !model.excluded.includes(tile);
+
+    // Track letter distributions
+    const vowelDist = new Map<Tile, number>(VOWELS.filter(allowed).map(v => [v, LETTER_FREQUENCIES[v]]));
+    const consDist = new Map<Tile, number>(CONSONANTS.filter(allowed).map(c => [c, LETTER_FREQUENCIES[c]]));
+
+    // Add minimum vowels
+    for (let i = 0; i < minVowels; i++) {
+        const vowel = weightedRandomChoice(
+            Array.from(vowelDist.keys()),
+            letter => vowelDist.get(letter) ?? 0,
+            rng
+        );
+        letters.push(vowel);
+        vowelDist.set(vowel, (vowelDist.get(vowel) ?? 0) * 0.5);
+    }
+
+    // Add minimum consonants
+    for (let i = 0; i < minConsonants; i++) {
+        const cons = weightedRandomChoice(
+            Array.from(consDist.keys()),
+            letter => consDist.get(letter) ?? 0,
+            rng
+        );
+        letters.push(cons);
+        consDist.set(cons, (consDist.get(cons) ?? 0) * 0.5);
+    }
+
+    // Fill remaining spots, drawing digraph tiles too if they're enabled
+    const remaining = cellCount - letters.length;
+    const allDist = new Map<Tile, number>([...vowelDist, ...consDist]);
+    if (digraphs) {
+        for (const digraph of DIGRAPHS.filter(allowed)) {
+            allDist.set(digraph, LETTER_FREQUENCIES[digraph]);
+        }
+    }
+
+    for (let i = 0; i < remaining; i++) {
+        const letter = weightedRandomChoice(
+            Array.from(allDist.keys()),
+            letter => allDist.get(letter) ?? 0,
+            rng
+        );
+        letters.push(letter);
+        allDist.set(letter, (allDist.get(letter) ?? 0) * 0.7);
+    }
+
+    shuffleArray(letters, rng);
+    return letters;
+}
+
+/**
+ * Roll one die per cell and scatter the dice over the board. 4x4 boards use
+ * the classic set and 5x5 the big set; 6x6 boards add classic dice to the big set.
+ */
+function rollDice(rng: RandomSource, cellCount: number): Tile[] {
+    const dice = cellCount <= CLASSIC_DICE.length ? [...CLASSIC_DICE]
+        : cellCount <= BIG_DICE.length ? [...BIG_DICE]
+        : [...BIG_DICE, ...CLASSIC_DICE].slice(0, cellCount);
+    shuffleArray(dice, rng);
+
+    return dice.slice(0, cellCount).map(die => die[Math.floor(rng() * die.length)] ?? 'E');
+}
+
+export const GENERATOR_PROFILES: Record<GeneratorProfileName, GeneratorProfile> = {
+    classic: {
+        name: 'classic',
+        // The dice are fixed, so digraph tiles don't apply
+        drawTiles: (rng, cellCount) => rollDice(rng, cellCount)
+    },
+    frequency: {
+        name: 'frequency',
+        drawTiles: (rng, cellCount, digraphs) => generateBalancedLetterSet(rng, cellCount, digraphs)
+    },
+    beginner: {
+        name: 'beginner',
+        difficulty: 'easy',
+        drawTiles: (rng, cellCount, digraphs) => generateBalancedLetterSet(rng, cellCount, digraphs, BEGINNER_MODEL)
+    }
+};
+
+export const DEFAULT_PROFILE: GeneratorProfileName = 'frequency';
+
+/**
+ * Look up a profile by name, falling back to the default for unknown names
+ */
+export function getGeneratorProfile(name: string | undefined): GeneratorProfile {
+    const profile = Object.values(GENERATOR_PROFILES).find(candidate => candidate.name === name);
+    return profile ?? GENERATOR_PROFILES[DEFAULT_PROFILE];
+}
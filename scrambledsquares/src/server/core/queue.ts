@@ -0,0 +1,311 @@
+import { context, redis, settings } from '@devvit/web/server';
+import { GameStorage } from './storage';
+import { GeneratedPuzzle, GridGenerator, getSubredditPuzzleOptions } from './grid';
+import { scopedKey } from './keys';
+
+// Key prefixes for Redis storage
+const KEYS = {
+    ORDER: 'queue:order',      // Sorted set of entry IDs, scored by position
+    ENTRIES: 'queue:entries',  // Hash of entry ID to the stored puzzle
+    SEQ: 'queue:seq',
+} as const;
+
+// How many upcoming days the queue is kept filled for, set per subreddit
+const QUEUE_SETTING = 'puzzleQueueDays';
+const DEFAULT_QUEUE_DAYS = 7;
+const MAX_QUEUE_DAYS = 30;
+const MAX_PIN_DAYS = 60;  // How far ahead a puzzle can be pinned
+
+const ONE_DAY_MS = 86400 * 1000;
+
+export interface QueuedPuzzle extends GeneratedPuzzle {
+    id: string;
+    createdAt: number;
+    pinnedFor?: string;  // dailyId a moderator pinned the puzzle to
+}
+
+export interface ScheduledPuzzle {
+    entry: QueuedPuzzle;
+    position: number;  // Place in queue order, from 0
+    dailyId: string;   // Day the puzzle is due to go live
+}
+
+function addDays(dailyId: string, days: number): string {
+    const date = new Date(Date.parse(`${dailyId}T00:00:00Z`) + days * ONE_DAY_MS);
+    return date.toISOString().split('T')[0] ?? dailyId;
+}
+
+/**
+ * Check that a value is a real YYYY-MM-DD date
+ */
+export function isDailyId(value: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(value) && addDays(value, 0) === value;
+}
+
+/**
+ * Upcoming puzzles, generated ahead of time so moderators can vet them.
+ * Puzzles go live in queue order, one per day, except that a puzzle pinned
+ * to a date always goes live on that date.
+ */
+export class PuzzleQueue {
+    /**
+     * Number of days ahead the queue is filled, from the subreddit setting
+     */
+    static async getTargetLength(): Promise<number> {
+        const days = Number(await settings.get<number>(QUEUE_SETTING));
+        if (!Number.isFinite(days) || days < 1) return DEFAULT_QUEUE_DAYS;
+        return Math.min(Math.floor(days), MAX_QUEUE_DAYS);
+    }
+
+    /**
+     * The first day still waiting for its puzzle: today, or tomorrow once
+     * today's rollover has posted
+     */
+    static async getStartDay(now: Date = new Date()): Promise<string> {
+        const today = now.toISOString().split('T')[0] ?? '';
+        return (await GameStorage.getRolloverPost(today)) ? addDays(today, 1) : today;
+    }
+
+    /**
+     * Assign queued puzzles to days from startDay on. Pinned puzzles take their
+     * own day and the rest fill the other days in order. Pins for days already
+     * past are ignored, so those puzzles just wait their turn.
+     */
+    static schedule(entries: QueuedPuzzle[], startDay: string): ScheduledPuzzle[] {
+        const pinned = new Map<string, number>();
+        entries.forEach((entry, index) => {
+            if (entry.pinnedFor && entry.pinnedFor >= startDay && !pinned.has(entry.pinnedFor)) {
+                pinned.set(entry.pinnedFor, index);
+            }
+        });
+        const pinnedIndexes = new Set(pinned.values());
+        const floating = entries.map((_, index) => index).filter(index => !pinnedIndexes.has(index));
+
+        const scheduled: ScheduledPuzzle[] = [];
+        let remainingPins = pinned.size;
+        for (let day = startDay; floating.length > 0 || remainingPins > 0; day = addDays(day, 1)) {
+            let index = pinned.get(day);
+            if (index !== undefined) {
+                remainingPins--;
+            } else {
+                index = floating.shift();
+            }
+
+            const entry = index === undefined ? undefined : entries[index];
+            if (index !== undefined && entry) {
+                scheduled.push({ entry, position: index, dailyId: day });
+            }
+        }
+        return scheduled;
+    }
+
+    /**
+     * Load every queued puzzle in queue order
+     */
+    private static async load(): Promise<QueuedPuzzle[]> {
+        const [order, stored] = await Promise.all([
+            redis.zRange(scopedKey(KEYS.ORDER), 0, -1, { by: 'rank' }),
+            redis.hGetAll(scopedKey(KEYS.ENTRIES))
+        ]);
+
+        return order
+            .map(({ member }) => stored?.[member])
+            .filter((value): value is string => !!value)
+            .map(value => JSON.parse(value) as QueuedPuzzle);
+    }
+
+    /**
+     * Rewrite positions so they run 0..n-1 in the given order
+     */
+    private static async saveOrder(ids: string[]): Promise<void> {
+        if (ids.length === 0) return;
+        await redis.zAdd(scopedKey(KEYS.ORDER), ...ids.map((member, score) => ({ member, score })));
+    }
+
+    private static async saveEntry(entry: QueuedPuzzle): Promise<void> {
+        await redis.hSet(scopedKey(KEYS.ENTRIES), { [entry.id]: JSON.stringify(entry) });
+    }
+
+    /**
+     * Generate and store a new puzzle (without placing it in the queue order).
+     * Each entry gets its own seed, so regenerating gives a different board.
+     */
+    private static async generate(dailyId: string, pinnedFor?: string): Promise<QueuedPuzzle> {
+        const id = await this.nextId();
+        const puzzle = GridGenerator.createPuzzle({
+            dailyId,
+            salt: `${context.subredditName ?? 'global'}:queue:${id}`,
+            ...await getSubredditPuzzleOptions()
+        });
+
+        const entry: QueuedPuzzle = { id, createdAt: Date.now(), ...puzzle };
+        if (pinnedFor) entry.pinnedFor = pinnedFor;
+        await this.saveEntry(entry);
+        return entry;
+    }
+
+    private static async nextId(): Promise<string> {
+        return String(await redis.incrBy(scopedKey(KEYS.SEQ), 1));
+    }
+
+    /**
+     * Throw if a puzzle can't be pinned to a day: not a date, outside the
+     * pinning window, or another puzzle already has it
+     */
+    private static async checkPin(entries: QueuedPuzzle[], id: string | null, dailyId: string): Promise<void> {
+        const startDay = await this.getStartDay();
+        if (!isDailyId(dailyId)) {
+            throw new Error(`"${dailyId}" is not a date (use YYYY-MM-DD)`);
+        }
+        if (dailyId < startDay || dailyId > addDays(startDay, MAX_PIN_DAYS)) {
+            throw new Error(`Pick a date from ${startDay} to ${addDays(startDay, MAX_PIN_DAYS)}`);
+        }
+        const clash = entries.find(item => item.id !== id && item.pinnedFor === dailyId);
+        if (clash) {
+            throw new Error(`Puzzle #${clash.id} is already pinned to ${dailyId}`);
+        }
+    }
+
+    /**
+     * List the queue with the day each puzzle is due to go live
+     */
+    static async list(): Promise<ScheduledPuzzle[]> {
+        return this.schedule(await this.load(), await this.getStartDay());
+    }
+
+    /**
+     * Get one queued puzzle
+     */
+    static async get(id: string): Promise<QueuedPuzzle | null> {
+        const stored = await redis.hGet(scopedKey(KEYS.ENTRIES), id);
+        return stored ? JSON.parse(stored) as QueuedPuzzle : null;
+    }
+
+    /**
+     * Top the queue up to the configured number of days. Each new puzzle is
+     * generated for the day it will land on, so it follows the difficulty schedule.
+     * Returns the number of puzzles added.
+     */
+    static async fill(): Promise<number> {
+        const target = await this.getTargetLength();
+        const startDay = await this.getStartDay();
+        const entries = await this.load();
+
+        let added = 0;
+        while (entries.length < target) {
+            const taken = new Set(this.schedule(entries, startDay).map(scheduled => scheduled.dailyId));
+            let day = startDay;
+            while (taken.has(day)) day = addDays(day, 1);
+
+            const entry = await this.generate(day);
+            await redis.zAdd(scopedKey(KEYS.ORDER), { member: entry.id, score: entries.length });
+            entries.push(entry);
+            added++;
+        }
+        return added;
+    }
+
+    /**
+     * Add a ready-made puzzle (e.g. one a moderator wrote) to the end of the
+     * queue, optionally pinned to a day
+     */
+    static async add(puzzle: GeneratedPuzzle, pinnedFor?: string): Promise<QueuedPuzzle> {
+        const entries = await this.load();
+        if (pinnedFor) {
+            await this.checkPin(entries, null, pinnedFor);
+        }
+
+        const entry: QueuedPuzzle = { id: await this.nextId(), createdAt: Date.now(), ...puzzle };
+        if (pinnedFor) entry.pinnedFor = pinnedFor;
+        await this.saveEntry(entry);
+        await redis.zAdd(scopedKey(KEYS.ORDER), { member: entry.id, score: entries.length });
+        return entry;
+    }
+
+    /**
+     * Get the puzzle due to go live on a day, without removing it from the
+     * queue. The board is relabelled with that day, whatever day it was made for.
+     */
+    static async next(dailyId: string): Promise<{ id: string; puzzle: GeneratedPuzzle } | null> {
+        const due = this.schedule(await this.load(), dailyId).find(scheduled => scheduled.dailyId === dailyId);
+        if (!due) return null;
+
+        const { entry } = due;
+        return {
+            id: entry.id,
+            puzzle: {
+                gridData: { ...entry.gridData, dailyId, date: dailyId },
+                solution: entry.solution
+            }
+        };
+    }
+
+    /**
+     * Remove a puzzle from the queue, e.g. once it has been posted
+     */
+    static async remove(id: string): Promise<void> {
+        await Promise.all([
+            redis.zRem(scopedKey(KEYS.ORDER), [id]),
+            redis.hDel(scopedKey(KEYS.ENTRIES), [id])
+        ]);
+        await this.saveOrder((await this.load()).map(entry => entry.id));
+    }
+
+    /**
+     * Reject a queued puzzle and put a freshly generated one in its place,
+     * keeping its position and any pin
+     */
+    static async regenerate(id: string): Promise<QueuedPuzzle> {
+        const scheduled = await this.list();
+        const current = scheduled.find(item => item.entry.id === id);
+        if (!current) {
+            throw new Error(`No queued puzzle with ID ${id}`);
+        }
+
+        const replacement = await this.generate(current.dailyId, current.entry.pinnedFor);
+        const ids = scheduled
+            .sort((a, b) => a.position - b.position)
+            .map(item => item.entry.id === id ? replacement.id : item.entry.id);
+
+        await redis.zRem(scopedKey(KEYS.ORDER), [id]);
+        await redis.hDel(scopedKey(KEYS.ENTRIES), [id]);
+        await this.saveOrder(ids);
+        return replacement;
+    }
+
+    /**
+     * Move a puzzle to a new position in the queue (clamped to the ends)
+     */
+    static async move(id: string, position: number): Promise<void> {
+        const ids = (await this.load()).map(entry => entry.id);
+        const from = ids.indexOf(id);
+        if (from === -1) {
+            throw new Error(`No queued puzzle with ID ${id}`);
+        }
+
+        ids.splice(from, 1);
+        ids.splice(Math.max(0, Math.min(position, ids.length)), 0, id);
+        await this.saveOrder(ids);
+    }
+
+    /**
+     * Pin a puzzle to go live on a given day, or unpin it with null
+     */
+    static async pin(id: string, dailyId: string | null): Promise<void> {
+        const entries = await this.load();
+        const entry = entries.find(item => item.id === id);
+        if (!entry) {
+            throw new Error(`No queued puzzle with ID ${id}`);
+        }
+
+        if (dailyId === null) {
+            delete entry.pinnedFor;
+            await this.saveEntry(entry);
+            return;
+        }
+
+        await this.checkPin(entries, id, dailyId);
+        entry.pinnedFor = dailyId;
+        await this.saveEntry(entry);
+    }
+}
@@ -0,0 +1,41 @@
+/**
+ * A source of uniformly distributed numbers in [0, 1), same contract as Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Hash a seed string into a 32-bit integer (xmur3)
+ */
+function hashSeed(seed: string): number {
+    let hash = 1779033703 ^ seed.length;
+    for (let i = 0; i < seed.length; i++) {
+        hash = Math.imul(hash ^ seed.charCodeAt(i), 3432918353);
+        hash = (hash << 13) | (hash >>> 19);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+    hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+    return (hash ^ (hash >>> 16)) >>> 0;
+}
+
+/**
+ * Create a deterministic random source (mulberry32) from a seed string.
+ * The same seed always yields the same sequence of numbers.
+ */
+export function createSeededRandom(seed: string): RandomSource {
+    let state = hashSeed(seed);
+    return () => {
+        state = (state + 0x6D2B79F5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Build the seed for a daily puzzle from its dailyId and an optional salt
+ * (e.g. the subreddit name) so different communities get different boards.
+ */
+export function getPuzzleSeed(dailyId: string, salt?: string): string {
+    return salt ? `${dailyId}:${salt.toLowerCase()}` : dailyId;
+}
@@ -0,0 +1,26 @@
+import { GameStorage } from './storage';
+import { calculateWordScore, DEFAULT_SCORING_MODEL, lengthScore, rarityScore } from './scoring';
+import { GameGrid, PuzzleRef, WordScoreBreakdown } from '../../shared/types/api';
+
+// Popularity needs a few finished players before a share means anything
+const MIN_POPULARITY_PLAYERS = 5;
+
+/**
+ * Score a found word under its puzzle's rule set and scoring model. Popularity is measured
+ * against ranked players who finished the puzzle before the word was found,
+ * so the same word can score differently early and late in the day.
+ */
+export async function scoreWord(word: string, puzzle: GameGrid & PuzzleRef): Promise<WordScoreBreakdown> {
+    const base = calculateWordScore(word, puzzle.scoringRules);
+    switch (puzzle.scoringModel ?? DEFAULT_SCORING_MODEL) {
+        case 'popularity': {
+            const { finders, players } = await GameStorage.getWordFinders(puzzle.postId, word);
+            if (players < MIN_POPULARITY_PLAYERS) return lengthScore(word, puzzle.scoringRules);
+            const share = Math.min(finders / players, 1);
+            return rarityScore(base, 1 - share, `found by ${Math.round(share * 100)}% of players`);
+        }
+        // Length scoring, and any model a stored puzzle names that is no longer offered
+        default:
+            return lengthScore(word, puzzle.scoringRules);
+    }
+}
@@ -0,0 +1,118 @@
+import { context, settings } from '@devvit/web/server';
+import { GameStorage } from './storage';
+import { GeneratedPuzzle, GridGenerator, getSubredditPuzzleOptions } from './grid';
+import { createPost } from './post';
+import { PuzzleQueue } from './queue';
+
+// The hour (UTC) the daily post goes up, set per subreddit
+const POST_HOUR_SETTING = 'dailyPostHour';
+const DEFAULT_POST_HOUR = 0;
+const ROLLOVER_LOCK_TTL = 600;  // Seconds; long enough for one run to finish
+
+export type RolloverResult =
+    | { status: 'waiting'; postHour: number }       // Before today's posting hour
+    | { status: 'done'; postId: string }            // Today's post already exists
+    | { status: 'busy' }                            // Another run holds the lock
+    | { status: 'created'; postId: string; closedPostId: string | null };
+
+/**
+ * Thrown when one step of the rollover fails, naming the step
+ */
+export class RolloverError extends Error {
+    constructor(
+        readonly step: string,
+        readonly dailyId: string,
+        cause: unknown
+    ) {
+        super(
+            `Daily rollover for ${dailyId} failed at "${step}": ${cause instanceof Error ? cause.message : String(cause)}`,
+            { cause }
+        );
+        this.name = 'RolloverError';
+    }
+}
+
+/**
+ * Hour (UTC, 0-23) the daily post should go up
+ */
+export async function getDailyPostHour(): Promise<number> {
+    const hour = Number(await settings.get<number>(POST_HOUR_SETTING));
+    if (!Number.isInteger(hour) || hour < 0 || hour > 23) return DEFAULT_POST_HOUR;
+    return hour;
+}
+
+/**
+ * Run one step, wrapping any failure in a RolloverError that names it
+ */
+async function step<T>(name: string, dailyId: string, run: () => T | Promise<T>): Promise<T> {
+    try {
+        return await run();
+    } catch (error) {
+        throw new RolloverError(name, dailyId, error);
+    }
+}
+
+/**
+ * Roll the subreddit over to a new daily puzzle: take the day's puzzle from the
+ * queue (generating one live if the queue is empty), submit the post, and close
+ * the previous day's leaderboard. The queue is topped up afterwards.
+ *
+ * Meant to run hourly. It does nothing before the configured hour or once the
+ * day's post exists, so firing twice (or catching up after a missed run) is safe.
+ */
+export async function runDailyRollover(now: Date = new Date()): Promise<RolloverResult> {
+    const dailyId = now.toISOString().split('T')[0] ?? '';
+    const postHour = await getDailyPostHour();
+    if (now.getUTCHours() < postHour) {
+        return { status: 'waiting', postHour };
+    }
+
+    const existing = await GameStorage.getRolloverPost(dailyId);
+    if (existing) {
+        return { status: 'done', postId: existing };
+    }
+
+    if (!(await GameStorage.acquireRolloverLock(dailyId, ROLLOVER_LOCK_TTL))) {
+        return { status: 'busy' };
+    }
+
+    try {
+        // Check again under the lock in case a run finished in between
+        const finished = await GameStorage.getRolloverPost(dailyId);
+        if (finished) {
+            return { status: 'done', postId: finished };
+        }
+
+        const previousPostId = await GameStorage.getCurrentDailyPostId();
+
+        const queued = await step('take queued puzzle', dailyId, () => PuzzleQueue.next(dailyId));
+        const puzzle = queued?.puzzle ?? await step<GeneratedPuzzle>('generate puzzle', dailyId, async () =>
+            GridGenerator.createPuzzle({ dailyId, salt: context.subredditName, ...await getSubredditPuzzleOptions() })
+        );
+        // Posting a daily records the rollover, so later runs today do nothing
+        const post = await step('submit post', dailyId, () => createPost({ puzzle, daily: true }));
+        if (queued) {
+            await step('dequeue puzzle', dailyId, () => PuzzleQueue.remove(queued.id));
+        }
+
+        let closedPostId: string | null = null;
+        if (previousPostId && previousPostId !== post.id) {
+            await step('close previous leaderboard', dailyId, () => GameStorage.closeLeaderboard(previousPostId));
+            closedPostId = previousPostId;
+        }
+
+        // The post is up, so a failed refill shouldn't fail the rollover
+        try {
+            await PuzzleQueue.fill();
+        } catch (error) {
+            console.error('Failed to refill the puzzle queue:', error);
+        }
+
+        return { status: 'created', postId: post.id, closedPostId };
+    } catch (error) {
+        console.error(error instanceof Error ? error.message : error);
+        throw error;
+    } finally {
+        await GameStorage.releaseRolloverLock(dailyId);
+    }
+}
@@ -0,0 +1,80 @@
+import { settings } from '@devvit/web/server';
+import { GameGrid, ScoringModel, ScoringRuleSet, WordScoreBreakdown } from '../../shared/types/api';
+
+const SCORING_MODEL_SETTING = 'scoringModel';
+const SCORING_RULES_SETTING = 'scoringRules';
+export const DEFAULT_SCORING_MODEL: ScoringModel = 'length';
+export const DEFAULT_SCORING_RULES: ScoringRuleSet = 'exponential';
+const SCORING_MODELS: readonly ScoringModel[] = ['length', 'popularity'];
+
+// Points for a word of each length, per rule set
+const SCORING_RULES: Record<ScoringRuleSet, (length: number) => number> = {
+    // Classic word-hunt table: 3-4 letters = 1, 5 = 2, 6 = 3, 7 = 5, 8+ = 11
+    classic: length => length <= 4 ? 1 : length === 5 ? 2 : length === 6 ? 3 : length === 7 ? 5 : 11,
+    // 3 letters = 2 points, 4 = 4, 5 = 8, etc.
+    exponential: length => Math.pow(2, length - 2),
+    flat: () => 1
+};
+
+// The rarest words score this many times their length points
+const MAX_RARITY_MULTIPLIER = 2;
+
+/**
+ * Calculate the score for a word based on its length, under a rule set.
+ * Defaults to exponential scoring: 3 letters = 2 points, 4 = 4, 5 = 8, etc.
+ */
+export function calculateWordScore(word: string, rules: ScoringRuleSet = DEFAULT_SCORING_RULES): number {
+    return SCORING_RULES[rules](word.length);
+}
+
+/**
+ * Score a word by length alone
+ */
+export function lengthScore(word: string, rules?: ScoringRuleSet): WordScoreBreakdown {
+    const base = calculateWordScore(word, rules);
+    return { base, multiplier: 1, score: base };
+}
+
+/**
+ * Weight a word's length points by its rarity, from 0 (everyone plays it) to
+ * 1 (nobody does). The multiplier moves in quarter steps so it reads cleanly.
+ */
+export function rarityScore(base: number, rarity: number, reason?: string): WordScoreBreakdown {
+    const clamped = Math.min(Math.max(rarity, 0), 1);
+    const multiplier = 1 + Math.round(clamped * (MAX_RARITY_MULTIPLIER - 1) * 4) / 4;
+    return {
+        base,
+        multiplier,
+        score: Math.round(base * multiplier),
+        ...(reason && multiplier > 1 && { reason })
+    };
+}
+
+/**
+ * Look up a scoring model by name, falling back to length scoring for unknown names
+ */
+export function getScoringModel(name: string | undefined): ScoringModel {
+    return SCORING_MODELS.find(model => model === name) ?? DEFAULT_SCORING_MODEL;
+}
+
+/**
+ * Look up a rule set by name, falling back to exponential scoring for unknown names
+ */
+export function getScoringRules(name: string | undefined): ScoringRuleSet {
+    return (Object.keys(SCORING_RULES) as ScoringRuleSet[]).find(rules => rules === name) ?? DEFAULT_SCORING_RULES;
+}
+
+/**
+ * The scoring model and rule set chosen in the subreddit's app settings
+ */
+export async function getSubredditScoring(): Promise<Required<Pick<GameGrid, 'scoringModel' | 'scoringRules'>>> {
+    const [model, rules] = await Promise.all([
+        settings.get<string[] | string>(SCORING_MODEL_SETTING),
+        settings.get<string[] | string>(SCORING_RULES_SETTING)
+    ]);
+    // Select settings come back as an array of the chosen values
+    return {
+        scoringModel: getScoringModel(Array.isArray(model) ? model[0] : model),
+        scoringRules: getScoringRules(Array.isArray(rules) ? rules[0] : rules)
+    };
+}
@@ -0,0 +1,179 @@
+import { randomUUID } from 'crypto';
+import { redis } from '@devvit/web/server';
+import { FoundWord, GameSession, PuzzleRef, WordScoreBreakdown } from '../../shared/types/api';
+import { scopedKey } from './keys';
+
+// Key prefixes for Redis storage
+const KEYS = {
+    SESSION: 'session',
+} as const;
+
+// Game timing
+export const GAME_DURATION_SECONDS = 60;
+const SUBMISSION_GRACE_MS = 3000;   // Allow for request latency at the buzzer
+const SESSION_TTL = 3600;           // Keep finished sessions around for an hour
+
+export type SessionErrorCode =
+    | 'SESSION_NOT_FOUND'
+    | 'SESSION_FORBIDDEN'   // Session belongs to another user
+    | 'SESSION_MISMATCH'    // Session is for a different puzzle
+    | 'SESSION_EXPIRED'
+    | 'SESSION_FINISHED';
+
+export interface SessionResult {
+    score: number;
+    timeElapsed: number;    // Seconds, measured by the server
+    rankedTime: number;     // Seconds not counting bonus time, for the leaderboard tie-break
+    foundWords: FoundWord[];
+}
+
+/**
+ * Server-authoritative game sessions. The server records when a game
+ * starts, which words were found and when, and computes the final score.
+ */
+export class SessionService {
+    private static sessionKey(token: string): string {
+        return scopedKey(KEYS.SESSION, token);
+    }
+
+    private static wordsKey(token: string): string {
+        return scopedKey(KEYS.SESSION, token, 'words');
+    }
+
+    /**
+     * Start a new timed session for a user on a post's puzzle
+     */
+    static async start(username: string, puzzle: PuzzleRef): Promise<GameSession> {
+        const token = randomUUID();
+        const startedAt = Date.now();
+        const session: GameSession = {
+            token,
+            username,
+            postId: puzzle.postId,
+            dailyId: puzzle.dailyId,
+            startedAt,
+            expiresAt: startedAt + GAME_DURATION_SECONDS * 1000,
+            foundWords: []
+        };
+
+        const key = this.sessionKey(token);
+        await redis.hSet(key, {
+            username,
+            postId: session.postId,
+            dailyId: session.dailyId,
+            startedAt: startedAt.toString(),
+            expiresAt: session.expiresAt.toString()
+        });
+        await redis.expire(key, SESSION_TTL);
+
+        return session;
+    }
+
+    /**
+     * Load a session with its found words
+     */
+    static async get(token: string): Promise<GameSession | null> {
+        const [data, words] = await Promise.all([
+            redis.hGetAll(this.sessionKey(token)),
+            redis.hGetAll(this.wordsKey(token))
+        ]);
+        if (!data?.username || !data.postId || !data.dailyId || !data.startedAt || !data.expiresAt) {
+            return null;
+        }
+
+        const foundWords: FoundWord[] = Object.entries(words ?? {})
+            .map(([word, value]) => ({ word, ...JSON.parse(value) }))
+            .sort((a, b) => a.foundAt - b.foundAt);
+
+        const session: GameSession = {
+            token,
+            username: data.username,
+            postId: data.postId,
+            dailyId: data.dailyId,
+            startedAt: parseInt(data.startedAt),
+            expiresAt: parseInt(data.expiresAt),
+            foundWords
+        };
+        if (data.bonusSeconds) {
+            session.bonusSeconds = parseInt(data.bonusSeconds);
+        }
+        if (data.finishedAt) {
+            session.finishedAt = parseInt(data.finishedAt);
+        }
+        return session;
+    }
+
+    /**
+     * Check that a session can be used by this user for this post's puzzle.
+     * Returns an error code, or null if the session is usable.
+     */
+    static checkAccess(
+        session: GameSession | null,
+        username: string,
+        puzzle: PuzzleRef
+    ): SessionErrorCode | null {
+        if (!session) return 'SESSION_NOT_FOUND';
+        if (session.username !== username) return 'SESSION_FORBIDDEN';
+        if (session.postId !== puzzle.postId || session.dailyId !== puzzle.dailyId) return 'SESSION_MISMATCH';
+        return null;
+    }
+
+    /**
+     * Check that a session is still accepting words
+     */
+    static checkActive(session: GameSession, now: number = Date.now()): SessionErrorCode | null {
+        if (session.finishedAt) return 'SESSION_FINISHED';
+        if (now > session.expiresAt + SUBMISSION_GRACE_MS) return 'SESSION_EXPIRED';
+        return null;
+    }
+
+    /**
+     * Record a found word with how it was scored. Returns false if the word was
+     * already found in this session.
+     */
+    static async recordWord(
+        token: string,
+        word: string,
+        breakdown: WordScoreBreakdown,
+        foundAt: number = Date.now()
+    ): Promise<boolean> {
+        const key = this.wordsKey(token);
+        const found = { score: breakdown.score, foundAt, breakdown };
+        const added = await redis.hSetNX(key, word, JSON.stringify(found));
+        await redis.expire(key, SESSION_TTL);
+        return added === 1;
+    }
+
+    /**
+     * Add bonus time to a session's clock
+     */
+    static async addBonusTime(token: string, seconds: number): Promise<void> {
+        if (seconds <= 0) return;
+        const key = this.sessionKey(token);
+        await Promise.all([
+            redis.hIncrBy(key, 'expiresAt', seconds * 1000),
+            redis.hIncrBy(key, 'bonusSeconds', seconds)
+        ]);
+    }
+
+    /**
+     * Finish a session and compute its result from the server-side record.
+     * Finishing twice returns the same result.
+     */
+    static async finish(session: GameSession): Promise<SessionResult> {
+        const now = Date.now();
+        const added = await redis.hSetNX(this.sessionKey(session.token), 'finishedAt', now.toString());
+        const finishedAt = added === 1 ? now : session.finishedAt ?? now;
+
+        const elapsedMs = Math.min(finishedAt, session.expiresAt) - session.startedAt;
+        const timeElapsed = Math.max(0, Math.round(elapsedMs / 1000));
+        return {
+            score: session.foundWords.reduce((sum, found) => sum + found.score, 0),
+            timeElapsed,
+            // Bonus time would push past what the ranking key holds, and rewarding
+            // long words shouldn't cost a player the tie-break
+            rankedTime: Math.max(0, timeElapsed - (session.bonusSeconds ?? 0)),
+            foundWords: session.foundWords
+        };
+    }
+}
@@ -0,0 +1,138 @@
+import { WordTrie } from './trie';
+import { calculateWordScore } from './scoring';
+import { GridPosition, SolvedWord } from '../../shared/types/api';
+
+const MIN_WORD_LENGTH = 3;
+
+/**
+ * A subreddit's changes to the base dictionary: words it bans and words it adds
+ */
+export interface WordOverlay {
+    blocked: ReadonlySet<string>;
+    allowed: ReadonlySet<string>;
+}
+
+/**
+ * Finds every dictionary word on a board by walking the grid and the
+ * dictionary trie together, abandoning a path as soon as its prefix is dead.
+ */
+export class BoardSolver {
+    /**
+     * Solve a board. Each word is returned once with one example path,
+     * sorted by score (highest first) and then alphabetically.
+     */
+    static solve(
+        grid: string[][],
+        trie: WordTrie,
+        minLength: number = MIN_WORD_LENGTH,
+        overlay?: WordOverlay
+    ): SolvedWord[] {
+        const found = new Map<string, SolvedWord>();
+        const visited: boolean[][] = grid.map(row => row.map(() => false));
+        const path: GridPosition[] = [];
+
+        const visit = (row: number, col: number, node: number, word: string): void => {
+            const cell = grid[row]?.[col];
+            const visitedRow = visited[row];
+            if (!cell || !visitedRow || visitedRow[col]) return;
+
+            const next = trie.walk(node, cell);
+            if (next < 0) return;
+
+            const newWord = word + cell.toUpperCase();
+            visitedRow[col] = true;
+            path.push({ row, col });
+
+            if (newWord.length >= minLength && trie.isWord(next) && !found.has(newWord)) {
+                found.set(newWord, {
+                    word: newWord,
+                    path: [...path],
+                    score: calculateWordScore(newWord)
+                });
+            }
+
+            for (let i = -1; i <= 1; i++) {
+                for (let j = -1; j <= 1; j++) {
+                    if (i === 0 && j === 0) continue;
+                    visit(row + i, col + j, next, newWord);
+                }
+            }
+
+            path.pop();
+            visitedRow[col] = false;
+        };
+
+        grid.forEach((row, rowIndex) => {
+            row.forEach((_, colIndex) => visit(rowIndex, colIndex, WordTrie.ROOT, ''));
+        });
+
+        const solution = [...found.values()];
+        return overlay ? this.applyOverlay(grid, solution, overlay, minLength) : this.sortSolution(solution);
+    }
+
+    /**
+     * Drop blocked words from a solution and add any allowed words the board spells
+     */
+    static applyOverlay(
+        grid: string[][],
+        solution: SolvedWord[],
+        overlay: WordOverlay,
+        minLength: number = MIN_WORD_LENGTH
+    ): SolvedWord[] {
+        const kept = solution.filter(solved => !overlay.blocked.has(solved.word));
+        const present = new Set(kept.map(solved => solved.word));
+
+        for (const word of overlay.allowed) {
+            if (word.length < minLength || present.has(word) || overlay.blocked.has(word)) continue;
+            const path = this.findPath(grid, word);
+            if (path) {
+                kept.push({ word, path, score: calculateWordScore(word) });
+            }
+        }
+        return this.sortSolution(kept);
+    }
+
+    /**
+     * Find one path that spells a word on the board, or null if there is none.
+     * Tiles can hold several letters, so each step matches a tile against the
+     * start of what is left of the word.
+     */
+    static findPath(grid: string[][], word: string): GridPosition[] | null {
+        const target = word.toUpperCase();
+        const visited: boolean[][] = grid.map(row => row.map(() => false));
+        const path: GridPosition[] = [];
+
+        const visit = (row: number, col: number, offset: number): boolean => {
+            const cell = grid[row]?.[col]?.toUpperCase();
+            const visitedRow = visited[row];
+            if (!cell || !visitedRow || visitedRow[col] || !target.startsWith(cell, offset)) return false;
+
+            visitedRow[col] = true;
+            path.push({ row, col });
+            const next = offset + cell.length;
+            if (next === target.length) return true;
+
+            for (let i = -1; i <= 1; i++) {
+                for (let j = -1; j <= 1; j++) {
+                    if (i === 0 && j === 0) continue;
+                    if (visit(row + i, col + j, next)) return true;
+                }
+            }
+
+            path.pop();
+            visitedRow[col] = false;
+            return false;
+        };
+
+        for (let row = 0; row < grid.length; row++) {
+            for (let col = 0; col < (grid[row]?.length ?? 0); col++) {
+                if (visit(row, col, 0)) return [...path];
+            }
+        }
+        return null;
+    }
+
+    private static sortSolution(solution: SolvedWord[]): SolvedWord[] {
+        return solution.sort((a, b) => b.score - a.score || a.word.localeCompare(b.word));
+    }
+}
@@ -1,17 +1,129 @@
-import { redis } from '@devvit/web/server';
-import { GameGrid, GameState } from '../../shared/types/api';
+import { redis, settings } from '@devvit/web/server';
+import { scopedKey } from './keys';
+import {
+    AggregateEntry,
+    AggregateLeaderboard,
+    AggregateMetric,
+    AggregatePeriod,
+    ArchivedPuzzle,
+    DailyLeaderboard,
+    GameGrid,
+    GameState,
+    LeaderboardEntry,
+    PlayerRank,
+    PuzzleRef,
+    RecentResult,
+    ScoreBucket,
+    SolvedWord,
+    SubmitScoreResponse,
+    UserProgress
+} from '../../shared/types/api';
 
-// Key prefixes for Redis storage
+// Key prefixes for Redis storage, namespaced per subreddit by scopedKey.
+// Puzzle-level keys are further keyed by the post ID that hosts the puzzle.
 const KEYS = {
-    DAILY_GRID: 'scrambled:daily:grid',
-    DAILY_WORDS: 'scrambled:daily:words',
-    LEADERBOARD: 'scrambled:leaderboard',
-    COMPLETION: 'scrambled:completion',
+    DAILY_CURRENT: 'daily:current',
+    PUZZLE: 'puzzle',
+    GAME_STATE: 'state',
+    LEADERBOARD: 'leaderboard',
+    LEADERBOARD_STATS: 'leaderboard-stats',
+    FINDS: 'finds',
+    ARCHIVE: 'archive',
+    AGGREGATE: 'aggregate',
+    PROGRESS: 'progress',
+    RANKED: 'ranked',
+    SCORED: 'scored',
+    SUBMISSION: 'submission',
+    COMPLETION: 'completion',
+    CLOSED: 'closed',
+    ROLLOVER: 'rollover',
 } as const;
 
 // Time constants (in seconds)
 const ONE_DAY = 86400;
 
+// How long puzzles and their leaderboards are kept, set per subreddit
+const RETENTION_SETTING = 'leaderboardRetentionDays';
+const DEFAULT_RETENTION_DAYS = 30;
+const MAX_RETENTION_DAYS = 365;
+
+/*
+ * Leaderboard ordering. Players are ranked by higher score, then more words,
+ * then lower time, then earlier submission. All four are packed into the one
+ * sorted-set score (which Redis stores as a double, exact up to 2^53) so range
+ * queries come back in this order directly:
+ *
+ *   score (20 bits) | words (10 bits) | 63 - time (6 bits) | MAX_SEQ - seq (17 bits)
+ *
+ * Players who match on everything but submission order share a rank.
+ */
+const WORDS_BITS = 10;
+const TIME_BITS = 6;
+const SEQ_BITS = 17;
+const MAX_RANKED_SCORE = 2 ** 20 - 1;
+const MAX_WORDS = 2 ** WORDS_BITS - 1;
+const MAX_TIME = 2 ** TIME_BITS - 1;
+const MAX_SEQ = 2 ** SEQ_BITS - 1;
+const TIE_GROUP = 2 ** SEQ_BITS;                            // Width of one exact tie group
+const SCORE_UNIT = 2 ** (WORDS_BITS + TIME_BITS + SEQ_BITS);  // Value of one point
+
+function encodeRankingScore(score: number, words: number, timeElapsed: number, seq: number): number {
+    const clamp = (value: number, max: number) => Math.min(Math.max(Math.floor(value), 0), max);
+    const tieKey = (clamp(score, MAX_RANKED_SCORE) * 2 ** WORDS_BITS + clamp(words, MAX_WORDS)) * 2 ** TIME_BITS
+        + (MAX_TIME - clamp(timeElapsed, MAX_TIME));
+    return tieKey * TIE_GROUP + (MAX_SEQ - clamp(seq, MAX_SEQ));
+}
+
+function decodeRankingScore(ranking: number): number {
+    return Math.floor(ranking / SCORE_UNIT);
+}
+
+// Aggregate boards: how long each window is kept (all-time never expires)
+const AGGREGATE_RETENTION: Record<AggregatePeriod, number | null> = {
+    weekly: ONE_DAY * 7 * 8,
+    monthly: ONE_DAY * 400,
+    alltime: null
+};
+const AGGREGATE_PERIODS = Object.keys(AGGREGATE_RETENTION) as AggregatePeriod[];
+const AGGREGATE_METRICS: AggregateMetric[] = ['total', 'average', 'days', 'best'];
+
+// Player stats
+const SCORE_BUCKET_SIZE = 25;
+const SCORE_BUCKET_CAP = 200;    // Scores from here up share the top bucket
+const RECENT_RESULTS = 10;
+
+type PuzzleField = 'grid' | 'words' | 'solution' | 'bonus';
+
+/**
+ * Get the dailyId of the day before, or an empty string if the dailyId is not a date
+ */
+function getPreviousDailyId(dailyId: string): string {
+    const date = new Date(`${dailyId}T00:00:00Z`);
+    if (Number.isNaN(date.getTime())) return '';
+    date.setUTCDate(date.getUTCDate() - 1);
+    return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Get the window a dailyId falls in: ISO week, calendar month, or all time
+ */
+function getAggregateWindowId(period: AggregatePeriod, dailyId: string): string {
+    if (period === 'alltime') return 'all';
+
+    const parsed = new Date(`${dailyId}T00:00:00Z`);
+    const date = Number.isNaN(parsed.getTime()) ? new Date() : parsed;
+    if (period === 'monthly') {
+        return date.toISOString().slice(0, 7);
+    }
+
+    // ISO 8601 week: the week containing the Thursday decides the year
+    const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+    thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
+    const yearStart = Date.UTC(thursday.getUTCFullYear(), 0, 1);
+    const week = Math.ceil(((thursday.getTime() - yearStart) / (ONE_DAY * 1000) + 1) / 7);
+    return `${thursday.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
 /**
  * Helper class for managing game state in Redis
  */
@@ -32,45 +144,112 @@ export class GameStorage {
     }
 
     /**
-     * Get the current date in YYYY-MM-DD format for keys
+     * Number of days puzzles and leaderboards are kept, from the subreddit setting
      */
-    private static getCurrentDateKey(): string {
-        const now = new Date();
-        return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+    static async getRetentionDays(): Promise<number> {
+        const days = Number(await settings.get<number>(RETENTION_SETTING));
+        if (!Number.isFinite(days) || days < 1) return DEFAULT_RETENTION_DAYS;
+        return Math.min(Math.floor(days), MAX_RETENTION_DAYS);
+    }
+
+    private static async getRetentionSeconds(): Promise<number> {
+        return (await this.getRetentionDays()) * ONE_DAY;
     }
+
     /**
-     * Store today's grid in Redis with 24-hour expiration
+     * Build the key for a stored puzzle field
      */
-    static async setDailyGrid(gridData: GameGrid): Promise<void> {
-        const gridString = JSON.stringify(gridData);
-        await redis.set(KEYS.DAILY_GRID, gridString);
-        await redis.expire(KEYS.DAILY_GRID, ONE_DAY);
+    private static puzzleKey(postId: string, field: PuzzleField): string {
+        return scopedKey(KEYS.PUZZLE, postId, field);
+    }
+
+    /**
+     * Store a puzzle field for as long as its leaderboard is kept
+     */
+    private static async setPuzzleField(postId: string, field: PuzzleField, value: unknown): Promise<void> {
+        const key = this.puzzleKey(postId, field);
+        await redis.set(key, JSON.stringify(value));
+        await redis.expire(key, await this.getRetentionSeconds());
+    }
+
+    /**
+     * Store the puzzle for a post and add it to the archive. Each post owns its
+     * puzzle, so storing one never touches another post's board.
+     */
+    static async savePuzzle(postId: string, gridData: GameGrid, solution: SolvedWord[]): Promise<void> {
+        await Promise.all([
+            this.setPuzzleField(postId, 'words', solution.map(solved => solved.word)),
+            this.setPuzzleField(postId, 'solution', solution)
+        ]);
+        // Store the grid last so a post's puzzle is never missing its words
+        await this.setPuzzleField(postId, 'grid', { ...gridData, postId });
+        await redis.zAdd(scopedKey(KEYS.ARCHIVE), { member: postId, score: Date.now() });
     }
 
     /**
-     * Retrieve today's grid from Redis
+     * Store a puzzle's bonus word. It is kept apart from the grid, which players can see.
      */
-    static async getDailyGrid(): Promise<GameGrid | null> {
-        const gridString = await redis.get(KEYS.DAILY_GRID);
+    static async saveBonusWord(postId: string, word: string): Promise<void> {
+        await this.setPuzzleField(postId, 'bonus', word);
+    }
+
+    /**
+     * Get a puzzle's bonus word, if it has one
+     */
+    static async getBonusWord(postId: string): Promise<string | null> {
+        const word = await redis.get(this.puzzleKey(postId, 'bonus'));
+        return word ? JSON.parse(word) : null;
+    }
+
+    /**
+     * Mark a post as the subreddit's current daily puzzle
+     */
+    static async setCurrentDailyPost(postId: string): Promise<void> {
+        await redis.set(scopedKey(KEYS.DAILY_CURRENT), postId);
+    }
+
+    /**
+     * Get the post ID of the subreddit's current daily puzzle
+     */
+    static async getCurrentDailyPostId(): Promise<string | null> {
+        return (await redis.get(scopedKey(KEYS.DAILY_CURRENT))) ?? null;
+    }
+
+    /**
+     * Retrieve the puzzle hosted by a post
+     */
+    static async getPuzzle(postId: string): Promise<(GameGrid & PuzzleRef) | null> {
+        const gridString = await redis.get(this.puzzleKey(postId, 'grid'));
         if (!gridString) return null;
         
         const data = JSON.parse(gridString);
         return {
             grid: data.grid,
+            size: data.size ?? data.grid.length,
+            postId,
             dailyId: data.dailyId,
-            date: data.date
+            date: data.date,
+            seed: data.seed,
+            difficulty: data.difficulty,
+            stats: data.stats,
+            dictionaryVersion: data.dictionaryVersion,
+            title: data.title,
+            profile: data.profile,
+            scoringModel: data.scoringModel,
+            scoringRules: data.scoringRules,
+            bonusWordLength: data.bonusWordLength
         };
     }
 
     /**
-     * Get current game state for a user
+     * Get current game state for a user on a post
      */
-    static async getGameState(userId: string): Promise<GameState> {
-        const gameKey = `${KEYS.DAILY_GRID}:${userId}`;
+    static async getGameState(postId: string, userId: string): Promise<GameState> {
+        const gameKey = scopedKey(KEYS.GAME_STATE, postId, userId);
         const stateString = await redis.get(gameKey);
         
         if (!stateString) {
-            const grid = await this.getDailyGrid();
+            const grid = await this.getPuzzle(postId);
             return {
                 isActive: false,
                 timeRemaining: 60,
@@ -84,116 +263,611 @@ export class GameStorage {
     }
 
     /**
-     * Store valid words for today's grid with 24-hour expiration
+     * Retrieve the valid words for a post's puzzle
      */
-    static async setDailyWords(words: Set<string>): Promise<void> {
-        const wordsArray = Array.from(words);
-        await redis.set(KEYS.DAILY_WORDS, JSON.stringify(wordsArray));
-        await redis.expire(KEYS.DAILY_WORDS, ONE_DAY);
+    static async getPuzzleWords(postId: string): Promise<Set<string> | null> {
+        const wordsString = await redis.get(this.puzzleKey(postId, 'words'));
+        if (!wordsString) return null;
+        return new Set(JSON.parse(wordsString));
     }
 
     /**
-     * Retrieve valid words for today's grid
+     * Retrieve the solved word list (with example paths) for a post's puzzle
      */
-    static async getDailyWords(): Promise<Set<string> | null> {
-        const wordsString = await redis.get(KEYS.DAILY_WORDS);
-        if (!wordsString) return null;
-        return new Set(JSON.parse(wordsString));
+    static async getPuzzleSolution(postId: string): Promise<SolvedWord[] | null> {
+        const solutionString = await redis.get(this.puzzleKey(postId, 'solution'));
+        if (!solutionString) return null;
+        return JSON.parse(solutionString);
+    }
+
+    /**
+     * Claim the single ranked attempt for a user on a puzzle.
+     * Claimed when a session starts, so the first session started wins whether or not
+     * it is ever submitted; claiming again with that session still counts as ranked.
+     * The claim lasts as long as the puzzle's leaderboard, so it can't lapse while the post is open.
+     */
+    static async claimRankedAttempt(postId: string, username: string, sessionToken: string): Promise<boolean> {
+        const rankedKey = scopedKey(KEYS.RANKED, postId);
+        const claimed = await redis.hSetNX(rankedKey, username, sessionToken);
+        await redis.expire(rankedKey, await this.getRetentionSeconds());
+        if (claimed === 1) return true;
+
+        return (await redis.hGet(rankedKey, username)) === sessionToken;
+    }
+
+    /**
+     * The session holding a user's ranked attempt on a puzzle, or null if they haven't started one
+     */
+    static async getRankedSession(postId: string, username: string): Promise<string | null> {
+        return (await redis.hGet(scopedKey(KEYS.RANKED, postId), username)) ?? null;
     }
 
     /**
-     * Update the leaderboard with a new score
+     * Mark a user's ranked attempt on a puzzle as scored. Returns false if it
+     * already was, so the leaderboard, aggregates and progress are written once
+     * however many times the ranked session is submitted.
+     */
+    static async markRankedScored(postId: string, username: string): Promise<boolean> {
+        const scoredKey = scopedKey(KEYS.SCORED, postId);
+        const marked = await redis.hSetNX(scoredKey, username, Date.now().toString());
+        await redis.expire(scoredKey, await this.getRetentionSeconds());
+        return marked === 1;
+    }
+
+    /**
+     * Get the stored response for a previous submission with this idempotency key.
+     * Ranked results are also stored under their session token.
+     */
+    static async getSubmission(
+        postId: string,
+        username: string,
+        idempotencyKey: string
+    ): Promise<SubmitScoreResponse | null> {
+        const submission = await redis.get(scopedKey(KEYS.SUBMISSION, postId, username, idempotencyKey));
+        return submission ? JSON.parse(submission) : null;
+    }
+
+    /**
+     * Store the response to a submission so a retry returns the same result
+     */
+    static async saveSubmission(
+        postId: string,
+        username: string,
+        idempotencyKey: string,
+        response: SubmitScoreResponse
+    ): Promise<void> {
+        const key = scopedKey(KEYS.SUBMISSION, postId, username, idempotencyKey);
+        await redis.set(key, JSON.stringify(response));
+        await redis.expire(key, await this.getRetentionSeconds());
+    }
+
+    private static leaderboardKey(postId: string): string {
+        return scopedKey(KEYS.LEADERBOARD, postId);
+    }
+
+    private static entryKey(postId: string, username: string): string {
+        return scopedKey(KEYS.LEADERBOARD, postId, username);
+    }
+
+    private static statsKey(postId: string): string {
+        return scopedKey(KEYS.LEADERBOARD_STATS, postId);
+    }
+
+    private static findsKey(postId: string): string {
+        return scopedKey(KEYS.FINDS, postId);
+    }
+
+    /**
+     * How many ranked players found a word on a puzzle, out of how many played it
+     */
+    static async getWordFinders(postId: string, word: string): Promise<{ finders: number; players: number }> {
+        const [finders, players] = await Promise.all([
+            redis.hGet(this.findsKey(postId), word),
+            redis.hGet(this.statsKey(postId), 'players')
+        ]);
+        return { finders: parseInt(finders ?? '0') || 0, players: parseInt(players ?? '0') || 0 };
+    }
+
+    /**
+     * Record a ranked score on a puzzle's leaderboard. Only called once per user per
+     * puzzle (see markRankedScored), so the running totals count each player once.
      */
     static async updateLeaderboard(
+        postId: string,
         username: string, 
         score: number, 
         foundWords: string[], 
         timeElapsed: number
     ): Promise<void> {
-        const leaderboardKey = `${KEYS.LEADERBOARD}:${this.getCurrentDateKey()}`;
-        const userKey = `${leaderboardKey}:${username}`;
-
-        // Store user's best score and details
-        const currentScore = await redis.hGet(userKey, 'score');
-        if (!currentScore || parseInt(currentScore) < score) {
-            await redis.hSet(userKey, {
-                score: score.toString(),
-                foundWords: JSON.stringify(foundWords),
-                timeElapsed: timeElapsed.toString(),
-                timestamp: Date.now().toString()
-            });
-        }
+        const leaderboardKey = this.leaderboardKey(postId);
+        const userKey = this.entryKey(postId, username);
+        const statsKey = this.statsKey(postId);
+        const findsKey = this.findsKey(postId);
+
+        // Submission order, the last tie-breaker; also the running totals for the average
+        const [seq] = await Promise.all([
+            redis.hIncrBy(statsKey, 'submissions', 1),
+            redis.hIncrBy(statsKey, 'players', 1),
+            redis.hIncrBy(statsKey, 'totalScore', score),
+            ...foundWords.map(word => redis.hIncrBy(findsKey, word, 1))
+        ]);
+
+        await redis.hSet(userKey, {
+            score: score.toString(),
+            foundWords: JSON.stringify(foundWords),
+            timeElapsed: timeElapsed.toString(),
+            timestamp: Date.now().toString(),
+            seq: seq.toString()
+        });
 
         // Update sorted set for rankings
         await redis.zAdd(leaderboardKey, {
-            score,
+            score: encodeRankingScore(score, foundWords.length, timeElapsed, seq),
             member: username
         });
 
-        // Set 24-hour expiration on both keys
+        const retention = await this.getRetentionSeconds();
         await Promise.all([
-            redis.expire(leaderboardKey, ONE_DAY),
-            redis.expire(userKey, ONE_DAY)
+            redis.expire(leaderboardKey, retention),
+            redis.expire(userKey, retention),
+            redis.expire(statsKey, retention),
+            redis.expire(findsKey, retention)
         ]);
     }
 
+    private static aggregateKey(period: AggregatePeriod, windowId: string, metric: AggregateMetric): string {
+        return scopedKey(KEYS.AGGREGATE, period, windowId, metric);
+    }
+
     /**
-     * Get the leaderboard for today
+     * Days a player has played in an aggregate window: a hash of dailyId to 1
      */
-    static async getDailyLeaderboard(limit: number = 10): Promise<Array<{
-        username: string;
-        score: number;
-        foundWords: string[];
-        timeElapsed: number;
-    }>> {
-        const leaderboardKey = `${KEYS.LEADERBOARD}:${this.getCurrentDateKey()}`;
-        // Get top scores in descending order
-        const scores = await redis.zRange(leaderboardKey, `-${limit}`, -1);
-        
-        const results: Array<{
-            username: string;
-            score: number;
-            foundWords: string[];
-            timeElapsed: number;
-        }> = [];
-
-        for (const username of scores) {
-            if (typeof username === 'string') {
-                const userKey = `${leaderboardKey}:${username}`;
-                const userScore = await redis.hGetAll(userKey);
-                
-                if (userScore?.score && userScore?.foundWords && userScore?.timeElapsed) {
-                    try {
-                        results.push({
-                            username,
-                            score: parseInt(userScore.score) || 0,
-                            foundWords: JSON.parse(userScore.foundWords) || [],
-                            timeElapsed: parseInt(userScore.timeElapsed) || 0
-                        });
-                    } catch (err) {
-                        console.error(`Error parsing user score for ${username}:`, err);
-                        // Skip invalid entries
-                        continue;
-                    }
-                }
+    private static playedDaysKey(period: AggregatePeriod, windowId: string, username: string): string {
+        return scopedKey(KEYS.AGGREGATE, period, windowId, 'played', username);
+    }
+
+    /**
+     * Fold a ranked daily result into the weekly, monthly and all-time boards.
+     * Each metric is its own sorted set so any of them can be ranked directly.
+     * Several puzzles on the same day count as one day played.
+     */
+    static async updateAggregates(dailyId: string, username: string, score: number): Promise<void> {
+        await Promise.all(AGGREGATE_PERIODS.map(async period => {
+            const windowId = getAggregateWindowId(period, dailyId);
+            const key = (metric: AggregateMetric) => this.aggregateKey(period, windowId, metric);
+            const playedKey = this.playedDaysKey(period, windowId, username);
+
+            const [total, newDay, best] = await Promise.all([
+                redis.zIncrBy(key('total'), username, score),
+                redis.hSetNX(playedKey, dailyId, '1'),
+                redis.zScore(key('best'), username)
+            ]);
+            const days = newDay === 1
+                ? await redis.zIncrBy(key('days'), username, 1)
+                : (await redis.zScore(key('days'), username)) ?? 1;
+            await redis.zAdd(key('average'), { member: username, score: total / days });
+            if (best === undefined || score > best) {
+                await redis.zAdd(key('best'), { member: username, score });
+            }
+
+            const retention = AGGREGATE_RETENTION[period];
+            if (retention !== null) {
+                await Promise.all([
+                    ...AGGREGATE_METRICS.map(metric => redis.expire(key(metric), retention)),
+                    redis.expire(playedKey, retention)
+                ]);
             }
+        }));
+    }
+
+    /**
+     * Get an aggregate board for the window containing a dailyId, ranked by one metric
+     */
+    static async getAggregateLeaderboard(
+        period: AggregatePeriod,
+        metric: AggregateMetric,
+        dailyId: string,
+        limit: number = 10
+    ): Promise<AggregateLeaderboard> {
+        const windowId = getAggregateWindowId(period, dailyId);
+        const key = (m: AggregateMetric) => this.aggregateKey(period, windowId, m);
+
+        const top = await redis.zRange(key(metric), 0, limit - 1, { by: 'rank', reverse: true });
+        const entries = await Promise.all(top.map(async ({ member: username }): Promise<AggregateEntry> => {
+            const [total, average, days, best] = await Promise.all(
+                AGGREGATE_METRICS.map(m => redis.zScore(key(m), username))
+            );
+            return {
+                username,
+                totalScore: total ?? 0,
+                averageScore: Math.round((average ?? 0) * 10) / 10,
+                daysPlayed: days ?? 0,
+                bestScore: best ?? 0
+            };
+        }));
+
+        return { period, windowId, metric, entries };
+    }
+
+    private static progressKey(username: string): string {
+        return scopedKey(KEYS.PROGRESS, username);
+    }
+
+    private static histogramKey(username: string): string {
+        return scopedKey(KEYS.PROGRESS, username, 'histogram');
+    }
+
+    /**
+     * Fold a ranked result into the player's lifetime stats. Like the leaderboard,
+     * this runs once per player per puzzle.
+     */
+    static async updateUserProgress(
+        username: string,
+        dailyId: string,
+        score: number,
+        foundWords: string[],
+        rank?: number
+    ): Promise<void> {
+        const key = this.progressKey(username);
+        const existing = await redis.hGetAll(key);
+        const bucket = Math.min(Math.floor(score / SCORE_BUCKET_SIZE) * SCORE_BUCKET_SIZE, SCORE_BUCKET_CAP);
+
+        await Promise.all([
+            redis.hIncrBy(key, 'gamesPlayed', 1),
+            redis.hIncrBy(key, 'totalScore', score),
+            redis.hIncrBy(key, 'totalWords', foundWords.length),
+            redis.hIncrBy(this.histogramKey(username), bucket.toString(), 1)
+        ]);
+
+        const result: RecentResult = { dailyId, score, foundWords: foundWords.length };
+        if (rank) result.rank = rank;
+        const recent: RecentResult[] = existing?.recentResults ? JSON.parse(existing.recentResults) : [];
+
+        // A streak continues when the previous ranked game was on the day before.
+        // Older puzzles stay playable, but playing one leaves the streak alone.
+        const lastPlayed = existing?.lastPlayedDate ?? '';
+        const currentStreak = parseInt(existing?.currentStreak ?? '0') || 0;
+        const isOlder = lastPlayed !== '' && dailyId < lastPlayed;
+        const streak = isOlder || lastPlayed === dailyId
+            ? currentStreak
+            : lastPlayed === getPreviousDailyId(dailyId) ? currentStreak + 1 : 1;
+
+        const updates: Record<string, string> = {
+            recentResults: JSON.stringify([result, ...recent].slice(0, RECENT_RESULTS)),
+            currentStreak: streak.toString()
+        };
+        if (!isOlder) {
+            updates.lastPlayedDate = dailyId;
         }
-        
-        return results;
+        if (streak > (parseInt(existing?.longestStreak ?? '0') || 0)) {
+            updates.longestStreak = streak.toString();
+        }
+        if (score > (parseInt(existing?.bestScore ?? '0') || 0)) {
+            updates.bestScore = score.toString();
+        }
+        const longest = foundWords.reduce((a, b) => (b.length > a.length ? b : a), '');
+        if (longest.length > (existing?.longestWord ?? '').length) {
+            updates.longestWord = longest;
+        }
+        await redis.hSet(key, updates);
     }
 
     /**
-     * Mark the game as completed when all words are found
+     * Credit a player with a word that was approved after they played: raise
+     * their ranked result on the puzzle, the aggregate boards and their lifetime
+     * totals. The score histogram and recent results keep the original score.
+     * Returns false if the player has no ranked result or already has the word.
      */
-    static async markGameCompleted(username: string): Promise<void> {
-        await redis.set(KEYS.COMPLETION, username);
+    static async refundWord(puzzle: PuzzleRef, username: string, word: string, points: number): Promise<boolean> {
+        const userKey = this.entryKey(puzzle.postId, username);
+        const entry = await redis.hGetAll(userKey);
+        if (!entry?.score || !entry.foundWords || !entry.seq) return false;
+
+        const foundWords: string[] = JSON.parse(entry.foundWords);
+        if (foundWords.includes(word)) return false;
+        foundWords.push(word);
+
+        const score = (parseInt(entry.score) || 0) + points;
+        const timeElapsed = parseInt(entry.timeElapsed ?? '0') || 0;
+        const seq = parseInt(entry.seq) || 0;
+
+        await redis.hSet(userKey, { score: score.toString(), foundWords: JSON.stringify(foundWords) });
+        await Promise.all([
+            redis.zAdd(this.leaderboardKey(puzzle.postId), {
+                score: encodeRankingScore(score, foundWords.length, timeElapsed, seq),
+                member: username
+            }),
+            redis.hIncrBy(this.statsKey(puzzle.postId), 'totalScore', points),
+            redis.hIncrBy(this.findsKey(puzzle.postId), word, 1)
+        ]);
+
+        // Fold the extra points into the aggregate boards for the puzzle's day
+        await Promise.all(AGGREGATE_PERIODS.map(async period => {
+            const windowId = getAggregateWindowId(period, puzzle.dailyId);
+            const key = (metric: AggregateMetric) => this.aggregateKey(period, windowId, metric);
+
+            const [total, days, best] = await Promise.all([
+                redis.zIncrBy(key('total'), username, points),
+                redis.zScore(key('days'), username),
+                redis.zScore(key('best'), username)
+            ]);
+            if (days) {
+                await redis.zAdd(key('average'), { member: username, score: total / days });
+            }
+            if (best === undefined || score > best) {
+                await redis.zAdd(key('best'), { member: username, score });
+            }
+        }));
+
+        const progressKey = this.progressKey(username);
+        const [, , bestScore] = await Promise.all([
+            redis.hIncrBy(progressKey, 'totalScore', points),
+            redis.hIncrBy(progressKey, 'totalWords', 1),
+            redis.hGet(progressKey, 'bestScore')
+        ]);
+        if (score > (parseInt(bestScore ?? '0') || 0)) {
+            await redis.hSet(progressKey, { bestScore: score.toString() });
+        }
+        return true;
     }
 
     /**
-     * Check if the game is completed
+     * Get a player's lifetime stats. Players with no ranked games get zeroed stats.
      */
-    static async isGameCompleted(): Promise<{ completed: boolean; winner: string | undefined }> {
-        const winner = await redis.get(KEYS.COMPLETION);
+    static async getUserProgress(username: string): Promise<UserProgress> {
+        const [progress, histogram] = await Promise.all([
+            redis.hGetAll(this.progressKey(username)),
+            redis.hGetAll(this.histogramKey(username))
+        ]);
+
+        const gamesPlayed = parseInt(progress?.gamesPlayed ?? '0') || 0;
+        const totalScore = parseInt(progress?.totalScore ?? '0') || 0;
+        const totalWords = parseInt(progress?.totalWords ?? '0') || 0;
+
+        // The stored streak is only current if the player has played today or yesterday
+        const lastPlayedDate = progress?.lastPlayedDate ?? '';
+        const today = new Date().toISOString().slice(0, 10);
+        const streakAlive = lastPlayedDate === today || lastPlayedDate === getPreviousDailyId(today);
+
+        // Every bucket up to the highest one reached, so gaps show as zero
+        const counts = new Map(Object.entries(histogram ?? {}).map(([min, count]) => [parseInt(min), parseInt(count) || 0]));
+        const topBucket = Math.max(0, ...counts.keys());
+        const scoreHistogram: ScoreBucket[] = [];
+        for (let min = 0; min <= topBucket; min += SCORE_BUCKET_SIZE) {
+            scoreHistogram.push({
+                min,
+                max: min >= SCORE_BUCKET_CAP ? null : min + SCORE_BUCKET_SIZE - 1,
+                count: counts.get(min) ?? 0
+            });
+        }
+
+        return {
+            userId: username,
+            gamesPlayed,
+            totalScore,
+            bestScore: parseInt(progress?.bestScore ?? '0') || 0,
+            averageScore: gamesPlayed > 0 ? Math.round(totalScore / gamesPlayed) : 0,
+            lastPlayedDate,
+            scoreHistogram: gamesPlayed > 0 ? scoreHistogram : [],
+            longestWord: progress?.longestWord ?? '',
+            averageWordsPerGame: gamesPlayed > 0 ? Math.round((totalWords / gamesPlayed) * 10) / 10 : 0,
+            recentResults: progress?.recentResults ? JSON.parse(progress.recentResults) : [],
+            currentStreak: streakAlive ? parseInt(progress?.currentStreak ?? '0') || 0 : 0,
+            longestStreak: parseInt(progress?.longestStreak ?? '0') || 0
+        };
+    }
+
+    /**
+     * Parse a stored leaderboard entry, or null if it is missing or malformed
+     */
+    private static parseLeaderboardEntry(
+        username: string,
+        rank: number,
+        userScore: Record<string, string> | undefined
+    ): LeaderboardEntry | null {
+        if (!userScore?.score || !userScore.foundWords || !userScore.timeElapsed) {
+            return null;
+        }
+
+        try {
+            const foundWords: string[] = JSON.parse(userScore.foundWords) || [];
+            const timestamp = parseInt(userScore.timestamp ?? '');
+            return {
+                username,
+                rank,
+                score: parseInt(userScore.score) || 0,
+                foundWords: foundWords.length,
+                timeElapsed: parseInt(userScore.timeElapsed) || 0,
+                submittedAt: Number.isFinite(timestamp) ? timestamp : 0,
+                date: Number.isFinite(timestamp) ? new Date(timestamp).toISOString() : ''
+            };
+        } catch (err) {
+            console.error(`Error parsing user score for ${username}:`, err);
+            return null;
+        }
+    }
+
+    /**
+     * Load the entries for a run of leaderboard members starting at a given rank.
+     * The hashes are read in one transaction so a page costs a single round trip.
+     */
+    private static async getLeaderboardEntries(
+        postId: string,
+        members: Array<{ member: string; score: number }>,
+        firstPosition: number
+    ): Promise<LeaderboardEntry[]> {
+        const first = members[0];
+        if (!first) return [];
+
+        const txn = await redis.watch();
+        await txn.multi();
+        for (const { member } of members) {
+            await txn.hGetAll(this.entryKey(postId, member));
+        }
+        const [hashes, firstRank] = await Promise.all([
+            txn.exec(),
+            this.getSharedRank(postId, first.score, firstPosition)
+        ]);
+
+        // Within the page, an entry tied with the one above shares its rank
+        let previousRank = firstRank;
+        return members
+            .map(({ member, score }, index) => {
+                const above = members[index - 1];
+                const tied = above !== undefined
+                    && Math.floor(above.score / TIE_GROUP) === Math.floor(score / TIE_GROUP);
+                const rank = index === 0 || tied ? previousRank : firstPosition + index;
+                previousRank = rank;
+                return this.parseLeaderboardEntry(member, rank, hashes[index]);
+            })
+            .filter((entry): entry is LeaderboardEntry => entry !== null);
+    }
+
+    /**
+     * Rank for a ranking score: one more than the number of players strictly ahead,
+     * so exact ties share a rank. `position` is where the entry sits in the sorted set.
+     */
+    private static async getSharedRank(postId: string, ranking: number, position: number): Promise<number> {
+        if (position <= 1) return 1;
+
+        // The lowest entry of the next tie group up is the last player strictly ahead
+        const leaderboardKey = this.leaderboardKey(postId);
+        const nextGroup = (Math.floor(ranking / TIE_GROUP) + 1) * TIE_GROUP;
+        const [ahead, totalPlayers] = await Promise.all([
+            redis.zRange(leaderboardKey, nextGroup, '+inf', { by: 'score', limit: { offset: 0, count: 1 } }),
+            redis.zCard(leaderboardKey)
+        ]);
+        const lastAhead = ahead[0];
+        if (!lastAhead) return 1;
+
+        const ascending = await redis.zRank(leaderboardKey, lastAhead.member);
+        return ascending === undefined ? position : totalPlayers - ascending + 1;
+    }
+
+    /**
+     * Get a page of a puzzle's leaderboard plus the score summary.
+     * Pass the returned nextOffset back as the offset to fetch the following page.
+     */
+    static async getDailyLeaderboard(
+        puzzle: PuzzleRef,
+        offset: number = 0,
+        limit: number = 10
+    ): Promise<DailyLeaderboard> {
+        const { postId, dailyId } = puzzle;
+        const leaderboardKey = this.leaderboardKey(postId);
+        const [page, top, totalPlayers, stats] = await Promise.all([
+            redis.zRange(leaderboardKey, offset, offset + limit - 1, { by: 'rank', reverse: true }),
+            redis.zRange(leaderboardKey, 0, 0, { by: 'rank', reverse: true }),
+            redis.zCard(leaderboardKey),
+            redis.hGetAll(this.statsKey(postId))
+        ]);
+
+        const entries = await this.getLeaderboardEntries(postId, page, offset + 1);
+        const players = parseInt(stats?.players ?? '0') || 0;
+        const totalScore = parseInt(stats?.totalScore ?? '0') || 0;
+
+        const leaderboard: DailyLeaderboard = {
+            postId,
+            dailyId,
+            entries,
+            topScore: top[0] ? decodeRankingScore(top[0].score) : 0,
+            averageScore: players > 0 ? Math.round(totalScore / players) : 0,
+            totalPlayers,
+            offset
+        };
+        if (offset + page.length < totalPlayers) {
+            leaderboard.nextOffset = offset + page.length;
+        }
+        return leaderboard;
+    }
+
+    /**
+     * Get a player's rank (1 = best) among everyone on a puzzle's leaderboard
+     */
+    static async getPlayerRank(postId: string, username: string): Promise<PlayerRank | null> {
+        const leaderboardKey = this.leaderboardKey(postId);
+        const [ascending, ranking, totalPlayers] = await Promise.all([
+            redis.zRank(leaderboardKey, username),
+            redis.zScore(leaderboardKey, username),
+            redis.zCard(leaderboardKey)
+        ]);
+        if (ascending === undefined || ranking === undefined || totalPlayers === 0) return null;
+
+        // zRank counts from the lowest score, so flip it for a top-down position
+        const rank = await this.getSharedRank(postId, ranking, totalPlayers - ascending);
+        return {
+            rank,
+            totalPlayers,
+            percentile: Math.round(((totalPlayers - rank) / totalPlayers) * 100)
+        };
+    }
+
+    /**
+     * Get the slice of a puzzle's leaderboard around a player, `radius` places either side
+     */
+    static async getLeaderboardAround(
+        puzzle: PuzzleRef,
+        username: string,
+        radius: number = 5
+    ): Promise<DailyLeaderboard | null> {
+        const leaderboardKey = this.leaderboardKey(puzzle.postId);
+        const [ascending, totalPlayers] = await Promise.all([
+            redis.zRank(leaderboardKey, username),
+            redis.zCard(leaderboardKey)
+        ]);
+        if (ascending === undefined) return null;
+
+        // Pages go by place in the sorted set, not by the rank ties share
+        const position = totalPlayers - 1 - ascending;
+        const offset = Math.max(0, position - radius);
+        return this.getDailyLeaderboard(puzzle, offset, radius * 2 + 1);
+    }
+
+    /**
+     * List archived puzzles, newest first. Puzzles past the retention window are dropped.
+     */
+    static async getArchive(limit: number = 30): Promise<ArchivedPuzzle[]> {
+        const cutoff = Date.now() - (await this.getRetentionSeconds()) * 1000;
+        await redis.zRemRangeByScore(scopedKey(KEYS.ARCHIVE), 0, cutoff);
+
+        const archived = await redis.zRange(scopedKey(KEYS.ARCHIVE), 0, limit - 1, { by: 'rank', reverse: true });
+        const puzzles = await Promise.all(archived.map(async ({ member: postId }) => {
+            const [puzzle, top, players] = await Promise.all([
+                this.getPuzzle(postId),
+                redis.zRange(this.leaderboardKey(postId), 0, 0, { by: 'rank', reverse: true }),
+                redis.hGet(this.statsKey(postId), 'players')
+            ]);
+            if (!puzzle) return null;
+
+            const entry: ArchivedPuzzle = {
+                postId,
+                dailyId: puzzle.dailyId,
+                date: puzzle.date,
+                size: puzzle.size,
+                players: parseInt(players ?? '0') || 0,
+                topScore: top[0] ? decodeRankingScore(top[0].score) : 0
+            };
+            if (puzzle.difficulty) entry.difficulty = puzzle.difficulty;
+            return entry;
+        }));
+
+        return puzzles.filter((puzzle): puzzle is ArchivedPuzzle => puzzle !== null);
+    }
+
+    /**
+     * Mark a puzzle as completed when a player finds all its words
+     */
+    static async markGameCompleted(postId: string, username: string): Promise<void> {
+        const key = scopedKey(KEYS.COMPLETION, postId);
+        await redis.set(key, username);
+        await redis.expire(key, await this.getRetentionSeconds());
+    }
+
+    /**
+     * Check if a puzzle is completed
+     */
+    static async isGameCompleted(postId: string): Promise<{ completed: boolean; winner: string | undefined }> {
+        const winner = await redis.get(scopedKey(KEYS.COMPLETION, postId));
         return {
             completed: !!winner,
             winner: winner ?? undefined
@@ -201,14 +875,50 @@ export class GameStorage {
     }
 
     /**
-     * Reset daily data (called when generating new puzzle)
+     * Close a puzzle's leaderboard. Later games on the post still play, but as practice.
      */
-    static async resetDailyData(): Promise<void> {
-        await Promise.all([
-            redis.del(KEYS.DAILY_GRID),
-            redis.del(KEYS.DAILY_WORDS),
-            redis.del(KEYS.LEADERBOARD),
-            redis.del(KEYS.COMPLETION)
-        ]);
+    static async closeLeaderboard(postId: string): Promise<void> {
+        const key = scopedKey(KEYS.CLOSED, postId);
+        await redis.set(key, Date.now().toString());
+        await redis.expire(key, await this.getRetentionSeconds());
+    }
+
+    /**
+     * Check if a puzzle's leaderboard has been closed
+     */
+    static async isLeaderboardClosed(postId: string): Promise<boolean> {
+        return !!(await redis.get(scopedKey(KEYS.CLOSED, postId)));
+    }
+
+    /**
+     * Take the lock for a day's rollover. Returns false if another run holds it.
+     * The lock expires on its own so a crashed run doesn't block the next one.
+     */
+    static async acquireRolloverLock(dailyId: string, ttlSeconds: number): Promise<boolean> {
+        const result = await redis.set(scopedKey(KEYS.ROLLOVER, dailyId, 'lock'), Date.now().toString(), {
+            nx: true,
+            expiration: new Date(Date.now() + ttlSeconds * 1000)
+        });
+        return result === 'OK';
+    }
+
+    static async releaseRolloverLock(dailyId: string): Promise<void> {
+        await redis.del(scopedKey(KEYS.ROLLOVER, dailyId, 'lock'));
+    }
+
+    /**
+     * Get the post created by a day's rollover, if it has already run
+     */
+    static async getRolloverPost(dailyId: string): Promise<string | null> {
+        return (await redis.get(scopedKey(KEYS.ROLLOVER, dailyId, 'post'))) ?? null;
+    }
+
+    /**
+     * Record a day's daily post, so later rollover runs that day do nothing
+     */
+    static async setRolloverPost(dailyId: string, postId: string): Promise<void> {
+        const key = scopedKey(KEYS.ROLLOVER, dailyId, 'post');
+        await redis.set(key, postId);
+        await redis.expire(key, ONE_DAY * 2);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,132 @@
+const INITIAL_CAPACITY = 1024;
+const NO_NODE = -1;
+
+/**
+ * Prefix tree over the dictionary, used by the board solver to stop
+ * exploring a path as soon as no word can start with it.
+ *
+ * Nodes are stored in flat typed arrays as first-child / next-sibling
+ * links so a full ~180k word list stays a few megabytes in memory.
+ */
+export class WordTrie {
+    static readonly ROOT = 0;
+
+    private letters = new Uint16Array(INITIAL_CAPACITY);
+    private firstChild = new Int32Array(INITIAL_CAPACITY).fill(NO_NODE);
+    private nextSibling = new Int32Array(INITIAL_CAPACITY).fill(NO_NODE);
+    private terminal = new Uint8Array(INITIAL_CAPACITY);
+    private nodeCount = 1;
+    private wordCount = 0;
+
+    /**
+     * Build a trie from a list of words (case-insensitive)
+     */
+    static fromWords(words: Iterable<string>): WordTrie {
+        const trie = new WordTrie();
+        for (const word of words) {
+            trie.insert(word);
+        }
+        return trie;
+    }
+
+    /**
+     * Number of distinct words in the trie
+     */
+    get size(): number {
+        return this.wordCount;
+    }
+
+    /**
+     * Add a word to the trie. Blank entries are ignored.
+     */
+    insert(word: string): void {
+        const upperWord = word.trim().toUpperCase();
+        if (!upperWord) return;
+
+        let node = WordTrie.ROOT;
+        for (let i = 0; i < upperWord.length; i++) {
+            const code = upperWord.charCodeAt(i);
+            let next = this.findChild(node, code);
+            if (next === NO_NODE) {
+                next = this.createNode(code);
+                this.nextSibling[next] = this.firstChild[node] ?? NO_NODE;
+                this.firstChild[node] = next;
+            }
+            node = next;
+        }
+
+        if (!this.terminal[node]) {
+            this.terminal[node] = 1;
+            this.wordCount++;
+        }
+    }
+
+    /**
+     * Follow a fragment of one or more letters from a node.
+     * Returns -1 when no word continues with that fragment.
+     */
+    walk(node: number, fragment: string): number {
+        const upperFragment = fragment.toUpperCase();
+        let current = node;
+        for (let i = 0; i < upperFragment.length && current !== NO_NODE; i++) {
+            current = this.findChild(current, upperFragment.charCodeAt(i));
+        }
+        return current;
+    }
+
+    /**
+     * Whether the path to this node spells a complete word
+     */
+    isWord(node: number): boolean {
+        return node !== NO_NODE && this.terminal[node] === 1;
+    }
+
+    /**
+     * Check if a word exists in the trie
+     */
+    has(word: string): boolean {
+        return this.isWord(this.walk(WordTrie.ROOT, word));
+    }
+
+    /**
+     * Check if any word starts with the given prefix
+     */
+    hasPrefix(prefix: string): boolean {
+        return this.walk(WordTrie.ROOT, prefix) !== NO_NODE;
+    }
+
+    private findChild(node: number, code: number): number {
+        let child = this.firstChild[node] ?? NO_NODE;
+        while (child !== NO_NODE && this.letters[child] !== code) {
+            child = this.nextSibling[child] ?? NO_NODE;
+        }
+        return child;
+    }
+
+    private createNode(code: number): number {
+        if (this.nodeCount === this.letters.length) {
+            this.grow();
+        }
+        const node = this.nodeCount++;
+        this.letters[node] = code;
+        return node;
+    }
+
+    private grow(): void {
+        const capacity = this.letters.length * 2;
+
+        const letters = new Uint16Array(capacity);
+        letters.set(this.letters);
+        const firstChild = new Int32Array(capacity).fill(NO_NODE);
+        firstChild.set(this.firstChild);
+        const nextSibling = new Int32Array(capacity).fill(NO_NODE);
+        nextSibling.set(this.nextSibling);
+        const terminal = new Uint8Array(capacity);
+        terminal.set(this.terminal);
+
+        this.letters = letters;
+        this.firstChild = firstChild;
+        this.nextSibling = nextSibling;
+        this.terminal = terminal;
+    }
+}
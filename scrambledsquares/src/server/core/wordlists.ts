@@ -0,0 +1,91 @@
+import { redis } from '@devvit/web/server';
+import { WordOverlay } from './solver';
+import { scopedKey } from './keys';
+
+// Key prefixes for Redis storage
+const KEYS = {
+    BLOCKED: 'words:blocked',  // Hash of word to the time it was blocked
+    ALLOWED: 'words:allowed',  // Hash of word to the time it was allowed
+} as const;
+
+export type WordListName = 'blocked' | 'allowed';
+
+const LIST_KEYS: Record<WordListName, string> = {
+    blocked: KEYS.BLOCKED,
+    allowed: KEYS.ALLOWED,
+};
+
+const MIN_WORD_LENGTH = 3;
+const MAX_WORD_LENGTH = 16;
+
+/**
+ * Split moderator input into words. Words are separated by commas, spaces or
+ * new lines. Returns the cleaned words and anything that isn't a usable word.
+ */
+export function parseWordInput(input: string): { words: string[]; invalid: string[] } {
+    const words = new Set<string>();
+    const invalid: string[] = [];
+    for (const raw of input.split(/[\s,;]+/)) {
+        if (!raw) continue;
+        const word = raw.toUpperCase();
+        if (/^[A-Z]+$/.test(word) && word.length >= MIN_WORD_LENGTH && word.length <= MAX_WORD_LENGTH) {
+            words.add(word);
+        } else {
+            invalid.push(raw);
+        }
+    }
+    return { words: [...words], invalid };
+}
+
+/**
+ * Per-subreddit word lists layered over the base dictionary. Blocked words
+ * never count and never appear on a board's word list; allowed words count
+ * even though the dictionary doesn't have them.
+ */
+export class WordListService {
+    private static listKey(list: WordListName): string {
+        return scopedKey(LIST_KEYS[list]);
+    }
+
+    /**
+     * Load the subreddit's overlay
+     */
+    static async getOverlay(): Promise<WordOverlay> {
+        const [blocked, allowed] = await Promise.all([
+            redis.hGetAll(this.listKey('blocked')),
+            redis.hGetAll(this.listKey('allowed'))
+        ]);
+        return {
+            blocked: new Set(Object.keys(blocked ?? {})),
+            allowed: new Set(Object.keys(allowed ?? {}))
+        };
+    }
+
+    /**
+     * Get the words on one list, alphabetically
+     */
+    static async getList(list: WordListName): Promise<string[]> {
+        return Object.keys((await redis.hGetAll(this.listKey(list))) ?? {}).sort();
+    }
+
+    /**
+     * Add words to a list. A word can only be on one list, so adding it here
+     * takes it off the other one.
+     */
+    static async add(list: WordListName, words: string[]): Promise<void> {
+        if (words.length === 0) return;
+        const other: WordListName = list === 'blocked' ? 'allowed' : 'blocked';
+        const now = Date.now().toString();
+
+        await redis.hSet(this.listKey(list), Object.fromEntries(words.map(word => [word, now])));
+        await redis.hDel(this.listKey(other), words);
+    }
+
+    /**
+     * Take words off a list. Returns how many were on it.
+     */
+    static async remove(list: WordListName, words: string[]): Promise<number> {
+        if (words.length === 0) return 0;
+        return redis.hDel(this.listKey(list), words);
+    }
+}
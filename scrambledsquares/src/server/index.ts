@@ -1,5 +1,16 @@
 import express from "express";
-import { GridPosition } from "../shared/types/api";
+import {
+  AggregateMetric,
+  BoardSize,
+  DisputeWordRequest,
+  DisputeWordResponse,
+  GridPosition,
+  LeaderboardPeriod,
+  PlayerStatsResponse,
+  StartSessionResponse,
+  SubmitScoreResponse,
+  ValidateWordResponse
+} from "../shared/types/api";
 import {
   createServer,
   context,
@@ -9,10 +20,21 @@ import {
 import { createPost } from "./core/post";
 import { DictionaryService } from "./core/dictionary";
 import { GameStorage } from "./core/storage";
-import { GridGenerator } from "./core/grid.js";
+import { AchievementService } from "./core/achievements";
+import { BoardSolver } from "./core/solver";
+import { WordListService } from "./core/wordlists";
+import { DisputeService } from "./core/disputes";
+import { scoreWord } from "./core/rarity";
+import { applyMomentum, getMomentum } from "./core/momentum";
+import { calculateWordScore } from "./core/scoring";
+import { GAME_DURATION_SECONDS, SessionErrorCode, SessionService } from "./core/session";
+import { DEFAULT_GRID_SIZE } from "./core/grid.js";
 import { onAppInstall } from "./routes/on-app-install.js";
 import { generateDaily } from "./routes/generate-daily.js";
-import { createPost as handlePostCreate } from "./routes/post-create.js";
+import { openPuzzleQueue, submitPuzzlePreview, submitPuzzleQueue } from "./routes/puzzle-queue.js";
+import { openCustomPuzzle, submitCustomPuzzle, submitCustomPuzzleReview } from "./routes/custom-puzzle.js";
+import { openWordLists, submitWordLists } from "./routes/word-lists.js";
+import { openWordDisputes, submitWordDisputes } from "./routes/word-disputes.js";
 
 const app = express();
 const router = express.Router();
@@ -25,7 +47,16 @@ app.use(express.text());
 // Internal routes
 router.post("/internal/on-app-install", onAppInstall);
 router.post("/internal/schedule/generate-daily", generateDaily);
-router.post("/internal/menu/post-create", handlePostCreate);
+router.post("/internal/menu/puzzle-queue", openPuzzleQueue);
+router.post("/internal/form/puzzle-queue", submitPuzzleQueue);
+router.post("/internal/form/puzzle-queue-preview", submitPuzzlePreview);
+router.post("/internal/menu/custom-puzzle", openCustomPuzzle);
+router.post("/internal/form/custom-puzzle", submitCustomPuzzle);
+router.post("/internal/form/custom-puzzle-review", submitCustomPuzzleReview);
+router.post("/internal/menu/word-lists", openWordLists);
+router.post("/internal/form/word-lists", submitWordLists);
+router.post("/internal/menu/word-disputes", openWordDisputes);
+router.post("/internal/form/word-disputes", submitWordDisputes);
 
 // Use the router
 app.use(router);
@@ -88,10 +119,30 @@ function rateLimit(windowMs: number, maxRequests: number): express.RequestHandle
 
 const gameRateLimit = rateLimit(60000, 60); // 60 requests/minute
 
+const SESSION_ERRORS: Record<SessionErrorCode, { status: number; message: string }> = {
+  SESSION_NOT_FOUND: { status: 404, message: 'Game session not found' },
+  SESSION_FORBIDDEN: { status: 403, message: 'Game session belongs to another user' },
+  SESSION_MISMATCH: { status: 400, message: 'Game session is for a different puzzle' },
+  SESSION_EXPIRED: { status: 409, message: 'Time is up for this game session' },
+  SESSION_FINISHED: { status: 409, message: 'Game session has already finished' },
+};
+
+function sessionError(code: SessionErrorCode): AppError {
+  const { status, message } = SESSION_ERRORS[code];
+  return createError(code, message, status);
+}
+
+// Each post hosts its own puzzle. Requests from outside a post fall back
+// to the subreddit's current daily post.
+async function getRequestPuzzle() {
+  const postId = context.postId ?? await GameStorage.getCurrentDailyPostId();
+  return postId ? GameStorage.getPuzzle(postId) : null;
+}
+
 // Game Routes
 router.get('/api/daily-grid', gameRateLimit, async (_req, res) => {
   try {
-    const grid = await GameStorage.getDailyGrid();
+    const grid = await getRequestPuzzle();
     if (!grid) {
       res.status(404).json(createError('GRID_NOT_FOUND', 'No daily puzzle available', 404));
       return;
@@ -107,6 +158,47 @@ router.get('/api/daily-grid', gameRateLimit, async (_req, res) => {
   }
 });
 
+// The solution is only shown once the player's ranked game on this post is over,
+// or to anyone once the puzzle's leaderboard has closed
+router.get('/api/daily-solution', gameRateLimit, async (_req, res) => {
+  try {
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+      return;
+    }
+
+    const puzzle = await getRequestPuzzle();
+    const solution = puzzle ? await GameStorage.getPuzzleSolution(puzzle.postId) : null;
+    if (!puzzle || !solution) {
+      res.status(404).json(createError('SOLUTION_NOT_FOUND', 'No solution available for the daily puzzle', 404));
+      return;
+    }
+
+    if (!await GameStorage.isLeaderboardClosed(puzzle.postId)) {
+      // Any later session is practice, so seeing the words can't help a ranked score.
+      // A ranked session that has lapsed from storage is long over.
+      const rankedToken = await GameStorage.getRankedSession(puzzle.postId, username);
+      const ranked = rankedToken ? await SessionService.get(rankedToken) : null;
+      if (!rankedToken || (ranked && !SessionService.checkActive(ranked))) {
+        res.status(403).json(createError('GAME_IN_PROGRESS', 'The solution is shown once your ranked game is over', 403));
+        return;
+      }
+    }
+    // Word lists may have changed since the puzzle was solved, and the solver
+    // scores with the default rules, so score again under the puzzle's own
+    const current = BoardSolver.applyOverlay(puzzle.grid, solution, await WordListService.getOverlay());
+    res.json(current.map(solved => ({ ...solved, score: calculateWordScore(solved.word, puzzle.scoringRules) })));
+  } catch (error) {
+    res.status(500).json(createError(
+      'INTERNAL_ERROR',
+      'Failed to get daily solution',
+      500,
+      { error: error instanceof Error ? error.message : String(error) }
+    ));
+  }
+});
+
 router.get('/api/game-state', gameRateLimit, async (_req, res) => {
   try {
     const username = await reddit.getCurrentUsername();
@@ -115,7 +207,13 @@ router.get('/api/game-state', gameRateLimit, async (_req, res) => {
       return;
     }
     
-    const gameState = await GameStorage.getGameState(username);
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle) {
+      res.status(404).json(createError('GRID_NOT_FOUND', 'No puzzle available for this post', 404));
+      return;
+    }
+
+    const gameState = await GameStorage.getGameState(puzzle.postId, username);
     res.json(gameState);
   } catch (error) {
     res.status(500).json(createError(
@@ -127,25 +225,135 @@ router.get('/api/game-state', gameRateLimit, async (_req, res) => {
   }
 });
 
+router.post('/api/session/start', gameRateLimit, async (req, res) => {
+  try {
+    const { dailyId } = req.body as { dailyId?: string };
+    if (!dailyId) {
+      res.status(400).json(createError('INVALID_REQUEST', 'dailyId is required', 400));
+      return;
+    }
+
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+      return;
+    }
+
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle) {
+      res.status(404).json(createError('PUZZLE_NOT_FOUND', 'No puzzle available for this post', 404));
+      return;
+    }
+    if (dailyId !== puzzle.dailyId) {
+      res.status(410).json(createError('PUZZLE_EXPIRED', 'This puzzle is no longer active', 410));
+      return;
+    }
+
+    // The first session started takes the ranked attempt, so skipping the
+    // submit of a bad run can't turn a later one into the ranked game
+    const session = await SessionService.start(username, puzzle);
+    const ranked = await GameStorage.claimRankedAttempt(puzzle.postId, username, session.token);
+    const response: StartSessionResponse = {
+      sessionToken: session.token,
+      startedAt: session.startedAt,
+      duration: GAME_DURATION_SECONDS,
+      ranked
+    };
+    res.json(response);
+  } catch (error) {
+    res.status(500).json(createError(
+      'SESSION_ERROR',
+      'Failed to start game session',
+      500,
+      { error: error instanceof Error ? error.message : String(error) }
+    ));
+  }
+});
+
 router.post('/api/validate-word', gameRateLimit, async (req, res) => {
   try {
-    const { word, dailyId, path } = req.body as { 
+    const { word, dailyId, sessionToken, path } = req.body as { 
       word?: string;
       dailyId?: string;
+      sessionToken?: string;
       path?: GridPosition[];
     };
 
-    if (!word || !dailyId || !path) {
+    if (!word || !dailyId || !sessionToken || !path) {
       res.status(400).json(createError(
         'INVALID_REQUEST',
-        'Word, dailyId, and path are required',
+        'Word, dailyId, sessionToken, and path are required',
         400
       ));
       return;
     }
 
-    const result = await DictionaryService.validateWord(word, path);
-    res.json(result);
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+      return;
+    }
+
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle) {
+      res.status(404).json(createError('PUZZLE_NOT_FOUND', `Unknown puzzle: ${dailyId}`, 404));
+      return;
+    }
+    if (puzzle.dailyId !== dailyId) {
+      res.status(410).json(createError('PUZZLE_EXPIRED', 'This puzzle is no longer active', 410));
+      return;
+    }
+
+    const session = await SessionService.get(sessionToken);
+    const sessionProblem = SessionService.checkAccess(session, username, puzzle)
+      ?? (session && SessionService.checkActive(session));
+    if (sessionProblem || !session) {
+      const code = sessionProblem ?? 'SESSION_NOT_FOUND';
+      res.status(SESSION_ERRORS[code].status).json(sessionError(code));
+      return;
+    }
+
+    const [words, overlay, bonusWord] = await Promise.all([
+      GameStorage.getPuzzleWords(puzzle.postId),
+      WordListService.getOverlay(),
+      GameStorage.getBonusWord(puzzle.postId)
+    ]);
+
+    const upperWord = word.trim().toUpperCase();
+    const result = await DictionaryService.validateWord(word, path, puzzle, words, overlay);
+    if (!result.isValid) {
+      // Remember who tried a word the dictionary lacks, in case it is approved later
+      if (result.code === 'NOT_A_WORD' && !DisputeService.checkDisputable(puzzle, upperWord, path, overlay)) {
+        await DisputeService.recordAttempt(puzzle, username, upperWord, path, sessionToken);
+      }
+      res.json(result);
+      return;
+    }
+
+    // Weight the length score by the puzzle's scoring model, then by the
+    // combo the session's earlier words build and the bonus word payout
+    const foundAt = Date.now();
+    const momentum = getMomentum(upperWord, session.foundWords, foundAt, session.bonusSeconds ?? 0);
+    const isBonusWord = upperWord === bonusWord;
+    const breakdown = applyMomentum(await scoreWord(upperWord, puzzle), momentum, isBonusWord);
+
+    const isNew = await SessionService.recordWord(sessionToken, upperWord, breakdown, foundAt);
+    if (!isNew) {
+      res.json({ isValid: false, score: 0, message: 'Word already found!', code: 'ALREADY_FOUND' });
+      return;
+    }
+    await SessionService.addBonusTime(sessionToken, momentum.bonusSeconds);
+
+    const response: ValidateWordResponse = {
+      isValid: true,
+      score: breakdown.score,
+      message: isBonusWord
+        ? `Bonus word! +${breakdown.score} points`
+        : `Valid word! +${breakdown.score} points`,
+      breakdown,
+      momentum
+    };
+    res.json(response);
   } catch (error) {
     res.status(500).json(createError(
       'VALIDATION_ERROR',
@@ -156,18 +364,84 @@ router.post('/api/validate-word', gameRateLimit, async (req, res) => {
   }
 });
 
+// A player asks moderators to count a word the dictionary rejected. Works
+// after the game ends too, so the session only has to belong to the player.
+router.post('/api/dispute-word', gameRateLimit, async (req, res) => {
+  try {
+    const { word, dailyId, sessionToken, path } = req.body as Partial<DisputeWordRequest>;
+    if (!word || !dailyId || !sessionToken || !Array.isArray(path)) {
+      res.status(400).json(createError(
+        'INVALID_REQUEST',
+        'Word, dailyId, sessionToken, and path are required',
+        400
+      ));
+      return;
+    }
+
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+      return;
+    }
+
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle || puzzle.dailyId !== dailyId) {
+      res.status(410).json(createError('PUZZLE_EXPIRED', 'This puzzle is no longer active', 410));
+      return;
+    }
+
+    const session = await SessionService.get(sessionToken);
+    const sessionProblem = SessionService.checkAccess(session, username, puzzle);
+    if (sessionProblem) {
+      res.status(SESSION_ERRORS[sessionProblem].status).json(sessionError(sessionProblem));
+      return;
+    }
+
+    // Only words that are really on the board and only failed the dictionary check
+    const upperWord = word.trim().toUpperCase();
+    const [words, overlay] = await Promise.all([
+      GameStorage.getPuzzleWords(puzzle.postId),
+      WordListService.getOverlay()
+    ]);
+    const result = await DictionaryService.validateWord(word, path, puzzle, words, overlay);
+    const problem = result.code === 'NOT_A_WORD'
+      ? DisputeService.checkDisputable(puzzle, upperWord, path, overlay)
+      : result.isValid ? 'That word already counts' : 'Only words missing from the dictionary can be disputed';
+    if (problem) {
+      res.status(400).json(createError('NOT_DISPUTABLE', problem, 400));
+      return;
+    }
+
+    const { players, disputes } = await DisputeService.submit(puzzle, username, upperWord);
+    const response: DisputeWordResponse = {
+      success: true,
+      players,
+      disputes,
+      message: 'Thanks! A moderator will review it.'
+    };
+    res.json(response);
+  } catch (error) {
+    res.status(500).json(createError(
+      'DISPUTE_ERROR',
+      'Failed to dispute word',
+      500,
+      { error: error instanceof Error ? error.message : String(error) }
+    ));
+  }
+});
+
 router.post('/api/submit-score', gameRateLimit, async (req, res) => {
   try {
-    const { score, words, timeElapsed } = req.body as {
-      score?: number;
-      words?: string[];
-      timeElapsed?: number;
+    const { dailyId, sessionToken, idempotencyKey } = req.body as {
+      dailyId?: string;
+      sessionToken?: string;
+      idempotencyKey?: string;
     };
 
-    if (!score || !words || timeElapsed === undefined) {
+    if (!dailyId || !sessionToken || !idempotencyKey) {
       res.status(400).json(createError(
         'INVALID_REQUEST',
-        'Score, words, and timeElapsed are required',
+        'dailyId, sessionToken, and idempotencyKey are required',
         400
       ));
       return;
@@ -179,44 +453,113 @@ router.post('/api/submit-score', gameRateLimit, async (req, res) => {
       return;
     }
 
-    // Check if game is already completed
-    const gameState = await GameStorage.isGameCompleted();
-    if (gameState.completed) {
-      res.json({
-        status: 'success',
-        leaderboardClosed: true,
-        winner: gameState.winner
-      });
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle) {
+      res.status(404).json(createError('PUZZLE_NOT_FOUND', `Unknown puzzle: ${dailyId}`, 404));
       return;
     }
+    const { postId } = puzzle;
 
-    // Verify submitted words
-    const validWords = await GameStorage.getDailyWords();
-    if (!validWords) {
-      res.status(500).json(createError('INTERNAL_ERROR', 'Daily words not found', 500));
+    const session = await SessionService.get(sessionToken);
+    const sessionProblem = SessionService.checkAccess(session, username, puzzle);
+    if (sessionProblem || !session) {
+      const code = sessionProblem ?? 'SESSION_NOT_FOUND';
+      res.status(SESSION_ERRORS[code].status).json(sessionError(code));
       return;
     }
 
-    const allWordsValid = words.every(word => validWords.has(word.toUpperCase()));
-    if (!allWordsValid) {
-      res.status(400).json(createError('INVALID_WORDS', 'Some submitted words are invalid', 400));
+    // A retried submission returns the original result
+    const previous = await GameStorage.getSubmission(postId, username, idempotencyKey);
+    if (previous) {
+      res.json(previous);
       return;
     }
 
-    // Update leaderboard
-    await GameStorage.updateLeaderboard(username, score, words, timeElapsed);
-
-    // Check for game completion
-    if (words.length === validWords.size) {
-      await GameStorage.markGameCompleted(username);
-      res.json({ status: 'success', completed: true, rank: 1 });
+    const validWords = await GameStorage.getPuzzleWords(postId);
+    if (!validWords) {
+      res.status(500).json(createError('INTERNAL_ERROR', 'Daily words not found', 500));
       return;
     }
 
-    // Get player's rank
-    const leaderboard = await GameStorage.getDailyLeaderboard();
-    const rank = leaderboard.findIndex(entry => entry.username === username) + 1;
-    res.json({ status: 'success', rank });
+    // Score, words and elapsed time all come from the server-side session
+    const result = await SessionService.finish(session);
+    const words = result.foundWords.map(found => found.word);
+    const response: SubmitScoreResponse = {
+      success: true,
+      score: result.score,
+      timeElapsed: result.timeElapsed,
+      foundWords: words,
+      wordScores: Object.fromEntries(result.foundWords.map(found => [
+        found.word,
+        found.breakdown ?? { base: found.score, multiplier: 1, score: found.score }
+      ]))
+    };
+
+    // Check if game is already completed, or the daily rollover has closed its leaderboard
+    const [gameState, closed] = await Promise.all([
+      GameStorage.isGameCompleted(postId),
+      GameStorage.isLeaderboardClosed(postId)
+    ]);
+    if (gameState.completed || closed) {
+      response.leaderboardClosed = true;
+      if (gameState.winner) response.winner = gameState.winner;
+    } else if (await GameStorage.claimRankedAttempt(postId, username, sessionToken)) {
+      // Only the first session the user started on this post counts for ranking,
+      // and it is scored once whatever idempotency key a resubmit carries
+      if (!await GameStorage.markRankedScored(postId, username)) {
+        const scored = await GameStorage.getSubmission(postId, username, sessionToken);
+        if (scored) {
+          res.json(scored);
+        } else {
+          res.status(409).json(createError('SUBMISSION_IN_PROGRESS', 'This game is already being scored', 409));
+        }
+        return;
+      }
+
+      await GameStorage.updateLeaderboard(postId, username, result.score, words, result.rankedTime);
+      await GameStorage.updateAggregates(puzzle.dailyId, username, result.score);
+      response.ranked = true;
+
+      // Check for game completion
+      if (words.length === validWords.size) {
+        await GameStorage.markGameCompleted(postId, username);
+        response.completed = true;
+      }
+
+      // Rank among everyone who has played this puzzle, not just the top page
+      const position = await GameStorage.getPlayerRank(postId, username);
+      if (position) {
+        response.rank = position.rank;
+        response.totalPlayers = position.totalPlayers;
+        response.percentile = position.percentile;
+      }
+
+      // A first ranked game sets a baseline rather than beating one
+      const previous = await GameStorage.getUserProgress(username);
+      await GameStorage.updateUserProgress(username, puzzle.dailyId, result.score, words, response.rank);
+      const progress = await GameStorage.getUserProgress(username);
+      response.streak = progress.currentStreak;
+      response.isPersonalBest = previous.gamesPlayed > 0 && result.score > previous.bestScore;
+
+      const newAchievements = await AchievementService.evaluate(username, {
+        result,
+        progress,
+        foundAllWords: words.length === validWords.size
+      });
+      if (newAchievements.length > 0) {
+        response.newAchievements = newAchievements;
+      }
+    } else {
+      response.ranked = false;
+      response.message = 'Practice round: only your first game on this puzzle counts for the leaderboard';
+    }
+
+    // The ranked result is also kept under the session, for resubmits with a new key
+    await Promise.all([
+      GameStorage.saveSubmission(postId, username, idempotencyKey, response),
+      ...(response.ranked ? [GameStorage.saveSubmission(postId, username, sessionToken, response)] : [])
+    ]);
+    res.json(response);
   } catch (error) {
     res.status(500).json(createError(
       'SUBMISSION_ERROR',
@@ -227,11 +570,38 @@ router.post('/api/submit-score', gameRateLimit, async (req, res) => {
   }
 });
 
-router.get('/api/leaderboard', gameRateLimit, async (_req, res) => {
+const MAX_LEADERBOARD_PAGE = 50;
+const LEADERBOARD_PERIODS: LeaderboardPeriod[] = ['daily', 'weekly', 'monthly', 'alltime'];
+const AGGREGATE_METRICS: AggregateMetric[] = ['total', 'average', 'days', 'best'];
+
+router.get('/api/leaderboard', gameRateLimit, async (req, res) => {
   try {
+    const period = (req.query.period ?? 'daily') as LeaderboardPeriod;
+    const metric = (req.query.metric ?? 'total') as AggregateMetric;
+    if (!LEADERBOARD_PERIODS.includes(period) || !AGGREGATE_METRICS.includes(metric)) {
+      res.status(400).json(createError(
+        'INVALID_REQUEST',
+        `period must be one of ${LEADERBOARD_PERIODS.join(', ')} and metric one of ${AGGREGATE_METRICS.join(', ')}`,
+        400
+      ));
+      return;
+    }
+
+    const puzzle = await getRequestPuzzle();
+    if (!puzzle) {
+      res.status(404).json(createError('GRID_NOT_FOUND', 'No daily puzzle available', 404));
+      return;
+    }
+
+    // Weekly, monthly and all-time boards cover the window containing this post's puzzle
+    if (period !== 'daily') {
+      res.json(await GameStorage.getAggregateLeaderboard(period, metric, puzzle.dailyId));
+      return;
+    }
+
     const [leaderboard, gameState] = await Promise.all([
-      GameStorage.getDailyLeaderboard(),
-      GameStorage.isGameCompleted()
+      GameStorage.getDailyLeaderboard(puzzle),
+      GameStorage.isGameCompleted(puzzle.postId)
     ]);
 
     res.json({
@@ -249,55 +619,111 @@ router.get('/api/leaderboard', gameRateLimit, async (_req, res) => {
   }
 });
 
-// Internal Routes
-router.post('/internal/menu/post-create', async (_req, res) => {
+router.get('/api/leaderboard/:postId', gameRateLimit, async (req, res) => {
   try {
-    const post = await createPost();
+    const { postId } = req.params;
+    const puzzle = postId ? await GameStorage.getPuzzle(postId) : null;
+    if (!puzzle) {
+      res.status(404).json(createError('PUZZLE_NOT_FOUND', `Unknown puzzle: ${postId}`, 404));
+      return;
+    }
 
-    // Generate new puzzle
-    await Promise.all([
-      GridGenerator.generateDailyPuzzle(),
-      DictionaryService.initialize()
-    ]);
+    // ?around=me returns the players either side of the current user
+    if (req.query.around === 'me') {
+      const username = await reddit.getCurrentUsername();
+      if (!username) {
+        res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+        return;
+      }
+
+      const around = await GameStorage.getLeaderboardAround(puzzle, username);
+      if (!around) {
+        res.status(404).json(createError('NOT_RANKED', 'You have no ranked score on this puzzle', 404));
+        return;
+      }
+      res.json(around);
+      return;
+    }
 
-    res.json({
-      navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`
-    });
+    const offset = Math.max(0, parseInt(String(req.query.offset ?? '0')) || 0);
+    const limit = Math.min(MAX_LEADERBOARD_PAGE, Math.max(1, parseInt(String(req.query.limit ?? '10')) || 10));
+    res.json(await GameStorage.getDailyLeaderboard(puzzle, offset, limit));
   } catch (error) {
-    res.status(400).json(createError(
-      'POST_CREATE_ERROR',
-      'Failed to create post',
-      400,
+    res.status(500).json(createError(
+      'LEADERBOARD_ERROR',
+      'Failed to get leaderboard',
+      500,
       { error: error instanceof Error ? error.message : String(error) }
     ));
   }
 });
 
-router.post('/internal/on-app-install', async (_req, res) => {
+router.get('/api/me/stats', gameRateLimit, async (_req, res) => {
   try {
-    const post = await createPost();
-    res.json({
-      status: 'success',
-      message: `Post created in r/${context.subredditName} with id ${post.id}`
-    });
+    const username = await reddit.getCurrentUsername();
+    if (!username) {
+      res.status(401).json(createError('UNAUTHORIZED', 'User not authenticated', 401));
+      return;
+    }
+
+    const [progress, achievements] = await Promise.all([
+      GameStorage.getUserProgress(username),
+      AchievementService.getUnlocked(username)
+    ]);
+    const stats: PlayerStatsResponse = { ...progress, achievements };
+    res.json(stats);
   } catch (error) {
-    res.status(400).json(createError(
-      'INSTALL_ERROR',
-      'Failed to create initial post',
-      400,
+    res.status(500).json(createError(
+      'STATS_ERROR',
+      'Failed to get player stats',
+      500,
+      { error: error instanceof Error ? error.message : String(error) }
+    ));
+  }
+});
+
+router.get('/api/archive', gameRateLimit, async (_req, res) => {
+  try {
+    res.json(await GameStorage.getArchive());
+  } catch (error) {
+    res.status(500).json(createError(
+      'ARCHIVE_ERROR',
+      'Failed to list archived puzzles',
+      500,
       { error: error instanceof Error ? error.message : String(error) }
     ));
   }
 });
 
+// Internal Routes
+function createPostHandler(size: BoardSize = DEFAULT_GRID_SIZE): express.RequestHandler {
+  return async (_req, res) => {
+    try {
+      const post = await createPost({ size });
+
+      res.json({
+        navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`
+      });
+    } catch (error) {
+      res.status(400).json(createError(
+        'POST_CREATE_ERROR',
+        'Failed to create post',
+        400,
+        { error: error instanceof Error ? error.message : String(error) }
+      ));
+    }
+  };
+}
+
+router.post('/internal/menu/post-create', createPostHandler());
+router.post('/internal/menu/post-create-big', createPostHandler(5));
+router.post('/internal/menu/post-create-super', createPostHandler(6));
+
 // Main setup
 app.use(router);
 
 // Initialize services
-Promise.all([
-  DictionaryService.initialize(),
-  GridGenerator.generateDailyPuzzle()
-]).catch(error => {
+DictionaryService.initialize().catch(error => {
   console.error('Failed to initialize services:', error);
   process.exit(1);
 });
@@ -0,0 +1,5 @@
+// Vite bundles `?raw` imports as plain strings
+declare module '*?raw' {
+    const content: string;
+    export default content;
+}
@@ -0,0 +1,235 @@
+import { Request, Response } from 'express';
+import { context } from '@devvit/web/server';
+import { Form, UiResponse } from '@devvit/web/shared';
+import { ScoringRuleSet } from '../../shared/types/api';
+import { CustomLayout, GeneratedPuzzle, GridGenerator } from '../core/grid.js';
+import { checkQuality } from '../core/difficulty.js';
+import { createPost } from '../core/post.js';
+import { PuzzleQueue } from '../core/queue.js';
+import { getSubredditScoring } from '../core/scoring.js';
+import { WordOverlay } from '../core/solver.js';
+import { WordListService } from '../core/wordlists.js';
+import { listPuzzleWords, summarizePuzzle } from './puzzle-queue.js';
+
+// Form names, matching the "forms" section of devvit.json
+const ENTRY_FORM = 'customPuzzle';
+const REVIEW_FORM = 'customPuzzleReview';
+
+type CustomPuzzleForm = NonNullable<UiResponse['showForm']>;
+
+type PublishAction = 'post' | 'queue' | 'pin';
+
+interface CustomPuzzleValues {
+  letters?: string;
+  layout?: string[];
+  title?: string;
+  action?: string[];
+  date?: string;
+}
+
+interface CustomPuzzleInput {
+  letters: string;
+  layout: CustomLayout;
+  title: string;
+}
+
+const LAYOUTS: { label: string; value: CustomLayout }[] = [
+  { label: 'Row by row', value: 'rows' },
+  { label: 'Snake (a phrase can be traced on the board)', value: 'snake' },
+];
+
+const PUBLISH_ACTIONS: { label: string; value: PublishAction }[] = [
+  { label: 'Post it now', value: 'post' },
+  { label: 'Add to the end of the queue', value: 'queue' },
+  { label: 'Schedule for a date', value: 'pin' },
+];
+
+function readInput(values: CustomPuzzleValues): CustomPuzzleInput {
+  return {
+    letters: values.letters?.trim() ?? '',
+    layout: values.layout?.[0] === 'snake' ? 'snake' : 'rows',
+    title: values.title?.trim() ?? ''
+  };
+}
+
+function buildPuzzle(input: CustomPuzzleInput, overlay: WordOverlay): GeneratedPuzzle {
+  return GridGenerator.buildCustomPuzzle(input.letters, { layout: input.layout, title: input.title, overlay });
+}
+
+/**
+ * The fields a moderator fills in to describe a board
+ */
+function inputFields(input?: CustomPuzzleInput): Form['fields'] {
+  return [
+    {
+      type: 'string',
+      name: 'letters',
+      label: 'Letters',
+      helpText: '16 letters for a 4x4 board, or a phrase of up to 36. Spaces and punctuation are ignored, ' +
+        'QU makes one "Qu" tile, and short phrases are padded with random letters.',
+      defaultValue: input?.letters ?? '',
+      required: true
+    },
+    {
+      type: 'select',
+      name: 'layout',
+      label: 'Layout',
+      options: LAYOUTS,
+      defaultValue: [input?.layout ?? 'rows']
+    },
+    {
+      type: 'string',
+      name: 'title',
+      label: 'Title (optional)',
+      helpText: 'Shown on the post instead of "Daily Puzzle", e.g. "Halloween Special"',
+      defaultValue: input?.title ?? ''
+    }
+  ];
+}
+
+function buildEntryForm(input?: CustomPuzzleInput, problem?: string): CustomPuzzleForm {
+  const form: Form = {
+    title: 'Custom puzzle',
+    description: problem ?? 'Type the letters for your board. It is solved and checked before anything is posted.',
+    acceptLabel: 'Check board',
+    fields: inputFields(input)
+  };
+  return { name: ENTRY_FORM, form };
+}
+
+function buildReviewForm(input: CustomPuzzleInput, puzzle: GeneratedPuzzle, rules: ScoringRuleSet): CustomPuzzleForm {
+  const form: Form = {
+    title: puzzle.gridData.title ?? 'Custom puzzle',
+    description: `${summarizePuzzle(puzzle, rules)}\nEditing the letters below re-checks the board before it is used.`,
+    acceptLabel: 'Publish',
+    fields: [
+      ...inputFields(input),
+      {
+        type: 'select',
+        name: 'action',
+        label: 'Publish',
+        options: PUBLISH_ACTIONS,
+        defaultValue: ['queue'],
+        required: true
+      },
+      {
+        type: 'string',
+        name: 'date',
+        label: 'Date (YYYY-MM-DD)',
+        helpText: 'Only used when scheduling for a date'
+      },
+      {
+        type: 'paragraph',
+        name: 'words',
+        label: 'Words on the board',
+        defaultValue: listPuzzleWords(puzzle),
+        disabled: true
+      }
+    ]
+  };
+  return { name: REVIEW_FORM, form };
+}
+
+/**
+ * Solve the typed board and check it against the quality floor. Returns the
+ * puzzle, or a form sending the moderator back to fix it.
+ */
+async function checkInput(
+  input: CustomPuzzleInput
+): Promise<{ puzzle: GeneratedPuzzle; rules: ScoringRuleSet } | { retry: CustomPuzzleForm }> {
+  const [overlay, { scoringRules: rules }] = await Promise.all([WordListService.getOverlay(), getSubredditScoring()]);
+  let puzzle: GeneratedPuzzle;
+  try {
+    puzzle = buildPuzzle(input, overlay);
+  } catch (error) {
+    return { retry: buildEntryForm(input, error instanceof Error ? error.message : String(error)) };
+  }
+
+  const { stats, size } = puzzle.gridData;
+  const misses = stats ? checkQuality(stats, size) : ['not solved'];
+  if (misses.length > 0) {
+    const problem = `This board is too weak to use (${misses.join(', ')}).\n${summarizePuzzle(puzzle, rules)}`;
+    return { retry: buildEntryForm(input, problem) };
+  }
+  return { puzzle, rules };
+}
+
+/**
+ * Menu item: ask the moderator for letters
+ */
+export const openCustomPuzzle = async (_: Request, res: Response): Promise<void> => {
+  const response: UiResponse = { showForm: buildEntryForm() };
+  res.json(response);
+};
+
+/**
+ * Entry form: solve the board and show what it offers, or why it was refused
+ */
+export const submitCustomPuzzle = async (req: Request, res: Response): Promise<void> => {
+  try {
+    const input = readInput((req.body ?? {}) as CustomPuzzleValues);
+    const checked = await checkInput(input);
+    const response: UiResponse = {
+      showForm: 'retry' in checked ? checked.retry : buildReviewForm(input, checked.puzzle, checked.rules)
+    };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to check custom puzzle:', error);
+    const response: UiResponse = { showToast: 'Failed to check the board' };
+    res.json(response);
+  }
+};
+
+/**
+ * Review form: post the board now or add it to the queue
+ */
+export const submitCustomPuzzleReview = async (req: Request, res: Response): Promise<void> => {
+  const values = (req.body ?? {}) as CustomPuzzleValues;
+  const action = values.action?.[0] as PublishAction | undefined;
+
+  try {
+    // The letters may have been edited on the review form, so check them again
+    const checked = await checkInput(readInput(values));
+    if ('retry' in checked) {
+      const response: UiResponse = { showForm: checked.retry };
+      res.json(response);
+      return;
+    }
+    const { puzzle } = checked;
+
+    switch (action) {
+      case 'post': {
+        const post = await createPost({ puzzle, daily: false });
+        const response: UiResponse = {
+          showToast: { text: 'Custom puzzle posted', appearance: 'success' },
+          navigateTo: `https://reddit.com/r/${context.subredditName}/comments/${post.id}`
+        };
+        res.json(response);
+        return;
+      }
+      case 'queue':
+      case 'pin': {
+        const date = action === 'pin' ? values.date?.trim() : undefined;
+        if (action === 'pin' && !date) {
+          throw new Error('Enter the date to schedule the puzzle for');
+        }
+        const entry = await PuzzleQueue.add(puzzle, date);
+        const response: UiResponse = {
+          showToast: {
+            text: date ? `Puzzle #${entry.id} scheduled for ${date}` : `Puzzle #${entry.id} added to the queue`,
+            appearance: 'success'
+          }
+        };
+        res.json(response);
+        return;
+      }
+      default:
+        throw new Error('Pick how to publish the puzzle');
+    }
+  } catch (error) {
+    const response: UiResponse = {
+      showToast: error instanceof Error ? error.message : 'Failed to publish the puzzle'
+    };
+    res.json(response);
+  }
+};
@@ -1,13 +1,19 @@
 import { Request, Response } from 'express';
-import { GridGenerator } from '../core/grid.js';
+import { runDailyRollover } from '../core/rollover.js';
 
 export const generateDaily = async (_: Request, res: Response): Promise<void> => {
   try {
-    const grid = GridGenerator.generateGrid();
-    // Store the grid in Redis for today
-    res.json({ success: true, grid });
+    const result = await runDailyRollover();
+    if (result.status === 'created') {
+      console.log(`Daily rollover created post ${result.postId}` +
+        (result.closedPostId ? ` and closed ${result.closedPostId}` : ''));
+    }
+    res.json({ success: true, ...result });
   } catch (error) {
-    console.error('Failed to generate daily puzzle:', error);
-    res.status(500).json({ success: false, error: 'Failed to generate puzzle' });
+    // runDailyRollover has already logged which step failed
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to roll over the daily puzzle'
+    });
   }
-};
\ No newline at end of file
+};
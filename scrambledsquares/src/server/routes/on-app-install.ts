@@ -1,5 +1,5 @@
 import { Request, Response } from 'express';
-import { GridGenerator } from '../core/grid.js';
+import { createPost } from '../core/post';
 
 import { initializeServices } from '../core/init';
 
@@ -8,10 +8,10 @@ export const onAppInstall = async (_: Request, res: Response): Promise<void> =>
     // Initialize all services properly
     await initializeServices();
     
-    // Verify we can generate a grid
-    await GridGenerator.generateDailyPuzzle();
+    // Start the subreddit off with its first daily post
+    const post = await createPost();
     
-    console.log('App installation completed successfully');
+    console.log(`App installation completed successfully, created post ${post.id}`);
     res.json({ success: true });
   } catch (error) {
     console.error('App installation failed:', error);
@@ -0,0 +1,226 @@
+import { Request, Response } from 'express';
+import { Form, UiResponse } from '@devvit/web/shared';
+import { ScoringRuleSet } from '../../shared/types/api';
+import { computePuzzleStats } from '../core/difficulty.js';
+import { GeneratedPuzzle } from '../core/grid.js';
+import { PuzzleQueue, QueuedPuzzle, ScheduledPuzzle } from '../core/queue.js';
+import { getSubredditScoring } from '../core/scoring.js';
+
+// Form names, matching the "forms" section of devvit.json
+const MANAGE_FORM = 'puzzleQueue';
+const PREVIEW_FORM = 'puzzleQueuePreview';
+
+type QueueForm = NonNullable<UiResponse['showForm']>;
+
+type QueueAction = 'preview' | 'regenerate' | 'top' | 'up' | 'down' | 'pin' | 'unpin';
+
+const ACTIONS: { label: string; value: QueueAction }[] = [
+  { label: 'Preview', value: 'preview' },
+  { label: 'Reject and regenerate', value: 'regenerate' },
+  { label: 'Move to the front', value: 'top' },
+  { label: 'Move earlier', value: 'up' },
+  { label: 'Move later', value: 'down' },
+  { label: 'Pin to date', value: 'pin' },
+  { label: 'Unpin', value: 'unpin' },
+];
+
+interface ManageFormValues {
+  entry?: string[];
+  action?: string[];
+  date?: string;
+}
+
+function formatDay(dailyId: string): string {
+  return new Date(`${dailyId}T00:00:00Z`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+function describeEntry({ entry, dailyId }: ScheduledPuzzle, rules: ScoringRuleSet): string {
+  const { difficulty, stats, title } = entry.gridData;
+  const parts = [
+    `${formatDay(dailyId)}: #${entry.id}`,
+    title ?? null,
+    difficulty ?? 'unrated',
+    stats ? `${stats.wordCount} words, ${computePuzzleStats(entry.solution, rules).totalPoints} pts` : null,
+    entry.pinnedFor === dailyId ? 'pinned' : null
+  ];
+  return parts.filter(Boolean).join(' · ');
+}
+
+function buildManageForm(scheduled: ScheduledPuzzle[], rules: ScoringRuleSet): QueueForm {
+  const form: Form = {
+    title: 'Upcoming puzzles',
+    description: scheduled.length > 0
+      ? scheduled.map(item => describeEntry(item, rules)).join('\n')
+      : 'The queue is empty.',
+    acceptLabel: 'Apply',
+    fields: [
+      {
+        type: 'select',
+        name: 'entry',
+        label: 'Puzzle',
+        options: scheduled.map(item => ({ label: describeEntry(item, rules), value: item.entry.id })),
+        required: true
+      },
+      {
+        type: 'select',
+        name: 'action',
+        label: 'Action',
+        options: ACTIONS,
+        defaultValue: ['preview'],
+        required: true
+      },
+      {
+        type: 'string',
+        name: 'date',
+        label: 'Pin date (YYYY-MM-DD)',
+        helpText: 'Only used when pinning'
+      }
+    ]
+  };
+  return { name: MANAGE_FORM, form };
+}
+
+/**
+ * Describe a board for moderators: the letters, difficulty and what it offers
+ * under the subreddit's scoring rules
+ */
+export function summarizePuzzle({ gridData, solution }: GeneratedPuzzle, rules: ScoringRuleSet): string {
+  const { grid, difficulty, stats } = gridData;
+  const summary = [
+    grid.map(row => row.join(' ')).join('\n'),
+    `Difficulty: ${difficulty ?? 'unrated'}`,
+    stats
+      ? `${stats.wordCount} words, max score ${computePuzzleStats(solution, rules).totalPoints}, longest word ${stats.longestWord} letters`
+      : null
+  ];
+  return summary.filter(Boolean).join('\n');
+}
+
+/**
+ * Every word on a board, longest first, for a read-only form field
+ */
+export function listPuzzleWords({ solution }: GeneratedPuzzle): string {
+  return [...solution]
+    .sort((a, b) => b.word.length - a.word.length || a.word.localeCompare(b.word))
+    .map(solved => solved.word)
+    .join(', ');
+}
+
+function buildPreviewForm(entry: QueuedPuzzle, dailyId: string | undefined, rules: ScoringRuleSet): QueueForm {
+  const form: Form = {
+    title: `Puzzle #${entry.id}${dailyId ? ` for ${formatDay(dailyId)}` : ''}`,
+    description: summarizePuzzle(entry, rules),
+    acceptLabel: 'Back to queue',
+    fields: [
+      {
+        type: 'paragraph',
+        name: 'words',
+        label: 'Words on the board',
+        defaultValue: listPuzzleWords(entry),
+        disabled: true
+      }
+    ]
+  };
+  return { name: PREVIEW_FORM, form };
+}
+
+async function showQueue(res: Response, toast?: string): Promise<void> {
+  const [scheduled, { scoringRules }] = await Promise.all([PuzzleQueue.list(), getSubredditScoring()]);
+  const response: UiResponse = { showForm: buildManageForm(scheduled, scoringRules) };
+  if (toast) response.showToast = { text: toast, appearance: 'success' };
+  res.json(response);
+}
+
+/**
+ * Menu item: fill the queue and show it to the moderator
+ */
+export const openPuzzleQueue = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const added = await PuzzleQueue.fill();
+    await showQueue(res, added > 0 ? `Generated ${added} new puzzle${added === 1 ? '' : 's'}` : undefined);
+  } catch (error) {
+    console.error('Failed to open the puzzle queue:', error);
+    const response: UiResponse = {
+      showToast: `Couldn't load the puzzle queue: ${error instanceof Error ? error.message : String(error)}`
+    };
+    res.json(response);
+  }
+};
+
+/**
+ * Queue form: apply the chosen action to the chosen puzzle
+ */
+export const submitPuzzleQueue = async (req: Request, res: Response): Promise<void> => {
+  const values = (req.body ?? {}) as ManageFormValues;
+  const id = values.entry?.[0];
+  const action = values.action?.[0] as QueueAction | undefined;
+
+  try {
+    if (!id || !action) {
+      throw new Error('Pick a puzzle and an action');
+    }
+
+    const scheduled = await PuzzleQueue.list();
+    const current = scheduled.find(item => item.entry.id === id);
+    if (!current) {
+      throw new Error(`Puzzle #${id} is no longer in the queue`);
+    }
+    const position = current.position;
+
+    switch (action) {
+      case 'preview': {
+        const { scoringRules } = await getSubredditScoring();
+        const response: UiResponse = { showForm: buildPreviewForm(current.entry, current.dailyId, scoringRules) };
+        res.json(response);
+        return;
+      }
+      case 'regenerate': {
+        const replacement = await PuzzleQueue.regenerate(id);
+        await showQueue(res, `Replaced #${id} with #${replacement.id}`);
+        return;
+      }
+      case 'top':
+        await PuzzleQueue.move(id, 0);
+        break;
+      case 'up':
+        await PuzzleQueue.move(id, position - 1);
+        break;
+      case 'down':
+        await PuzzleQueue.move(id, position + 1);
+        break;
+      case 'pin':
+        await PuzzleQueue.pin(id, values.date?.trim() ?? '');
+        break;
+      case 'unpin':
+        await PuzzleQueue.pin(id, null);
+        break;
+      default:
+        throw new Error(`Unknown action "${action}"`);
+    }
+
+    await showQueue(res, `Updated #${id}`);
+  } catch (error) {
+    const response: UiResponse = {
+      showToast: error instanceof Error ? error.message : 'Failed to update the puzzle queue'
+    };
+    res.json(response);
+  }
+};
+
+/**
+ * Preview form: go back to the queue
+ */
+export const submitPuzzlePreview = async (_: Request, res: Response): Promise<void> => {
+  try {
+    await showQueue(res);
+  } catch (error) {
+    console.error('Failed to reopen the puzzle queue:', error);
+    const response: UiResponse = { showToast: 'Failed to load the puzzle queue' };
+    res.json(response);
+  }
+};
@@ -0,0 +1,126 @@
+import { Request, Response } from 'express';
+import { Form, UiResponse } from '@devvit/web/shared';
+import { DisputeService, DisputeSummary } from '../core/disputes.js';
+import { GameStorage } from '../core/storage.js';
+
+// Form name, matching the "forms" section of devvit.json
+const WORD_DISPUTES_FORM = 'wordDisputes';
+
+type DisputeAction = 'approve' | 'reject';
+
+const ACTIONS: { label: string; value: DisputeAction }[] = [
+  { label: 'Approve (allow the word and refund the points)', value: 'approve' },
+  { label: 'Reject', value: 'reject' },
+];
+
+interface WordDisputeValues {
+  dispute?: string[];
+  action?: string[];
+}
+
+function disputeValue(dispute: DisputeSummary): string {
+  return `${dispute.postId}:${dispute.word}`;
+}
+
+function describeDispute(dispute: DisputeSummary): string {
+  const tried = `${dispute.players} player${dispute.players === 1 ? '' : 's'} tried it`;
+  return `${dispute.word} on ${dispute.dailyId} (${tried}, ${dispute.disputes} disputed)`;
+}
+
+function buildWordDisputesForm(disputes: DisputeSummary[]): NonNullable<UiResponse['showForm']> {
+  const form: Form = {
+    title: 'Word disputes',
+    description: [
+      'Words players think should have counted. Approving a word adds it to the allowlist ' +
+        'and gives its points to every player who tried it in their ranked game on that puzzle.',
+      ...disputes.map(describeDispute)
+    ].join('\n'),
+    acceptLabel: 'Resolve',
+    fields: [
+      {
+        type: 'select',
+        name: 'dispute',
+        label: 'Word',
+        options: disputes.map(dispute => ({ label: describeDispute(dispute), value: disputeValue(dispute) })),
+        defaultValue: disputes[0] ? [disputeValue(disputes[0])] : [],
+        required: true
+      },
+      {
+        type: 'select',
+        name: 'action',
+        label: 'Action',
+        options: ACTIONS,
+        defaultValue: ['approve'],
+        required: true
+      }
+    ]
+  };
+  return { name: WORD_DISPUTES_FORM, form };
+}
+
+/**
+ * Menu item: list open word disputes
+ */
+export const openWordDisputes = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const disputes = await DisputeService.listOpen();
+    const response: UiResponse = disputes.length === 0
+      ? { showToast: 'No open word disputes' }
+      : { showForm: buildWordDisputesForm(disputes) };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to load word disputes:', error);
+    const response: UiResponse = { showToast: 'Failed to load the word disputes' };
+    res.json(response);
+  }
+};
+
+/**
+ * Word disputes form: approve or reject one disputed word
+ */
+export const submitWordDisputes = async (req: Request, res: Response): Promise<void> => {
+  const values = (req.body ?? {}) as WordDisputeValues;
+  const action = values.action?.[0] as DisputeAction | undefined;
+  const selected = values.dispute?.[0] ?? '';
+  const separator = selected.lastIndexOf(':');
+  const postId = selected.slice(0, separator);
+  const word = selected.slice(separator + 1);
+
+  try {
+    if (separator <= 0 || !word) {
+      throw new Error('Pick a word to resolve');
+    }
+
+    let toast: string;
+    switch (action) {
+      case 'approve': {
+        const puzzle = await GameStorage.getPuzzle(postId);
+        if (!puzzle) {
+          throw new Error('That puzzle no longer exists');
+        }
+        const result = await DisputeService.approve(puzzle, word);
+        toast = `Approved ${result.word}; refunded ${result.refunded} player${result.refunded === 1 ? '' : 's'}`;
+        break;
+      }
+      case 'reject': {
+        const result = await DisputeService.reject(postId, word);
+        toast = `Rejected ${result.word}`;
+        break;
+      }
+      default:
+        throw new Error('Pick an action');
+    }
+
+    const remaining = await DisputeService.listOpen();
+    const response: UiResponse = {
+      showToast: { text: toast, appearance: 'success' },
+      ...(remaining.length > 0 && { showForm: buildWordDisputesForm(remaining) })
+    };
+    res.json(response);
+  } catch (error) {
+    const response: UiResponse = {
+      showToast: error instanceof Error ? error.message : 'Failed to resolve the dispute'
+    };
+    res.json(response);
+  }
+};
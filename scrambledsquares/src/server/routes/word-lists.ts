@@ -0,0 +1,132 @@
+import { Request, Response } from 'express';
+import { Form, UiResponse } from '@devvit/web/shared';
+import { parseWordInput, WordListName, WordListService } from '../core/wordlists.js';
+
+// Form name, matching the "forms" section of devvit.json
+const WORD_LISTS_FORM = 'wordLists';
+const PREVIEW_WORDS = 50;  // Words of each list shown in the form description
+
+type WordListAction = 'block' | 'allow' | 'unblock' | 'unallow';
+
+const ACTIONS: { label: string; value: WordListAction }[] = [
+  { label: 'Block these words', value: 'block' },
+  { label: 'Allow these words', value: 'allow' },
+  { label: 'Remove from the blocklist', value: 'unblock' },
+  { label: 'Remove from the allowlist', value: 'unallow' },
+];
+
+interface WordListValues {
+  action?: string[];
+  words?: string;
+}
+
+function describeList(label: string, words: string[]): string {
+  if (words.length === 0) return `${label}: none`;
+  const shown = words.slice(0, PREVIEW_WORDS).join(', ');
+  const more = words.length > PREVIEW_WORDS ? ` and ${words.length - PREVIEW_WORDS} more` : '';
+  return `${label} (${words.length}): ${shown}${more}`;
+}
+
+async function buildWordListsForm(values?: WordListValues): Promise<NonNullable<UiResponse['showForm']>> {
+  const [blocked, allowed] = await Promise.all([
+    WordListService.getList('blocked'),
+    WordListService.getList('allowed')
+  ]);
+
+  const form: Form = {
+    title: 'Word lists',
+    description: [
+      'Blocked words never count and never show on a board; allowed words count even if the dictionary lacks them.',
+      describeList('Blocked', blocked),
+      describeList('Allowed', allowed)
+    ].join('\n'),
+    acceptLabel: 'Apply',
+    fields: [
+      {
+        type: 'select',
+        name: 'action',
+        label: 'Action',
+        options: ACTIONS,
+        defaultValue: values?.action ?? ['block'],
+        required: true
+      },
+      {
+        type: 'paragraph',
+        name: 'words',
+        label: 'Words',
+        helpText: 'Separate words with commas, spaces or new lines',
+        defaultValue: values?.words ?? '',
+        required: true
+      }
+    ]
+  };
+  return { name: WORD_LISTS_FORM, form };
+}
+
+/**
+ * Menu item: show the subreddit's word lists
+ */
+export const openWordLists = async (_: Request, res: Response): Promise<void> => {
+  try {
+    const response: UiResponse = { showForm: await buildWordListsForm() };
+    res.json(response);
+  } catch (error) {
+    console.error('Failed to load word lists:', error);
+    const response: UiResponse = { showToast: 'Failed to load the word lists' };
+    res.json(response);
+  }
+};
+
+/**
+ * Word lists form: add words to or remove them from a list
+ */
+export const submitWordLists = async (req: Request, res: Response): Promise<void> => {
+  const values = (req.body ?? {}) as WordListValues;
+  const action = values.action?.[0] as WordListAction | undefined;
+
+  try {
+    const { words, invalid } = parseWordInput(values.words ?? '');
+    if (invalid.length > 0) {
+      const response: UiResponse = {
+        showToast: `Not words (use 3-16 letters A-Z): ${invalid.slice(0, 5).join(', ')}`,
+        showForm: await buildWordListsForm(values)
+      };
+      res.json(response);
+      return;
+    }
+    if (words.length === 0) {
+      throw new Error('Enter at least one word');
+    }
+
+    let toast: string;
+    switch (action) {
+      case 'block':
+      case 'allow': {
+        const list: WordListName = action === 'block' ? 'blocked' : 'allowed';
+        await WordListService.add(list, words);
+        toast = `${action === 'block' ? 'Blocked' : 'Allowed'} ${words.length} word${words.length === 1 ? '' : 's'}`;
+        break;
+      }
+      case 'unblock':
+      case 'unallow': {
+        const list: WordListName = action === 'unblock' ? 'blocked' : 'allowed';
+        const removed = await WordListService.remove(list, words);
+        toast = `Removed ${removed} word${removed === 1 ? '' : 's'} from the ${action === 'unblock' ? 'blocklist' : 'allowlist'}`;
+        break;
+      }
+      default:
+        throw new Error('Pick an action');
+    }
+
+    const response: UiResponse = {
+      showToast: { text: toast, appearance: 'success' },
+      showForm: await buildWordListsForm()
+    };
+    res.json(response);
+  } catch (error) {
+    const response: UiResponse = {
+      showToast: error instanceof Error ? error.message : 'Failed to update the word lists'
+    };
+    res.json(response);
+  }
+};
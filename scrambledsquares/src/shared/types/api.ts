@@ -7,52 +7,224 @@ export interface GameState {
   grid: string[][];
 }
 
+// Supported board dimensions: 4x4 daily, 5x5 "Big" and 6x6 "Super"
+export type BoardSize = 4 | 5 | 6;
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+// How a board's letters are drawn: classic dice, English letter frequency, or vowel-rich for beginners
+export type GeneratorProfileName = 'classic' | 'frequency' | 'beginner';
+
+// Points per word length: the classic word-hunt table (3-4 letters = 1, 5 = 2,
+// 6 = 3, 7 = 5, 8+ = 11), doubling per letter (3 = 2, 4 = 4, 5 = 8...), or 1 per word
+export type ScoringRuleSet = 'classic' | 'exponential' | 'flat';
+
+// How words are scored: by length alone, or by length weighted by how few other
+// players on the puzzle found the word
+export type ScoringModel = 'length' | 'popularity';
+
+// How a word's points were worked out
+export interface WordScoreBreakdown {
+  base: number;        // Points for the word's length under the puzzle's rule set
+  multiplier: number;  // Rarity multiplier; always 1 under the length model
+  score: number;       // Base times every multiplier, rounded
+  reason?: string;     // What made the word rare, e.g. "found by 10% of players"
+  combo?: number;      // Combo multiplier, when found quickly after the last word
+  bonusWord?: boolean; // The puzzle's bonus word, worth several times its points
+}
+
+// Momentum from a found word: the combo it continues and any time it earned
+export interface WordMomentum {
+  combo: number;            // Words found in a row, each soon after the one before
+  comboMultiplier: number;  // Applied to this word's points
+  comboWindowMs: number;    // Time left to find the next word and keep the combo
+  bonusSeconds: number;     // Added to the timer for this word
+}
+
+export interface PuzzleStats {
+  wordCount: number;
+  totalPoints: number;   // Maximum score available on the board
+  longestWord: number;   // Length of the longest word on the board
+}
+
 export interface GameGrid {
   grid: string[][];
-  dailyId: string;  // Unique identifier for the daily puzzle
+  size: BoardSize;  // Board width and height in cells
+  dailyId: string;  // Date the puzzle was made for (UTC, YYYY-MM-DD)
+  postId?: string;  // Post hosting the puzzle; set once it is stored
   date: string;     // ISO date string
+  seed?: string;    // Seed the grid was generated from, for exact regeneration
+  difficulty?: Difficulty;
+  stats?: PuzzleStats;
+  dictionaryVersion?: string;  // Word list the puzzle was solved against
+  title?: string;   // Name of a moderator-made puzzle, e.g. for a holiday event
+  profile?: GeneratorProfileName;  // Generator the board came from; unset for moderator-made boards
+  scoringModel?: ScoringModel;      // Set when the puzzle is posted; older puzzles score by length
+  scoringRules?: ScoringRuleSet;    // Set when the puzzle is posted; older puzzles use exponential
+  bonusWordLength?: number;         // Length of the hidden bonus word, as a hint
+}
+
+// Identifies a stored puzzle: the post it lives in and the day it was made for
+export interface PuzzleRef {
+  postId: string;
+  dailyId: string;
+}
+
+// Game session types
+export interface FoundWord {
+  word: string;
+  score: number;
+  foundAt: number;  // Server time (ms) the word was accepted
+  breakdown?: WordScoreBreakdown;
+}
+
+export interface GameSession {
+  token: string;
+  username: string;
+  postId: string;
+  dailyId: string;
+  startedAt: number;   // Server time (ms) the game started
+  expiresAt: number;   // Server time (ms) the timer runs out, including bonus time
+  bonusSeconds?: number;  // Time added for long words so far
+  foundWords: FoundWord[];
+  finishedAt?: number;
 }
 
 // API Request/Response types
+export interface StartSessionRequest {
+  dailyId: string;
+}
+
+export interface StartSessionResponse {
+  sessionToken: string;
+  startedAt: number;
+  duration: number;  // Game length in seconds
+  ranked: boolean;   // False when an earlier session holds the ranked attempt
+}
+
 export interface ValidateWordRequest {
   word: string;
   dailyId: string;
+  sessionToken: string;
   path: GridPosition[];  // Path of letter selections
 }
 
+// Why a submitted word was rejected
+export type WordRejectionCode =
+  | 'TOO_SHORT'
+  | 'TOO_LONG'
+  | 'NOT_A_WORD'
+  | 'INVALID_PATH'    // Off the board or cells not adjacent
+  | 'CELL_REUSED'
+  | 'PATH_MISMATCH'   // Letters along the path don't spell the word
+  | 'NOT_IN_PUZZLE'
+  | 'ALREADY_FOUND';
+
 export interface ValidateWordResponse {
   isValid: boolean;
   score: number;
   message?: string;
+  code?: WordRejectionCode;
+  breakdown?: WordScoreBreakdown;  // Set for accepted words
+  momentum?: WordMomentum;         // Set for accepted words
+}
+
+// A player asking moderators to count a word the dictionary rejected
+export interface DisputeWordRequest {
+  word: string;
+  dailyId: string;
+  sessionToken: string;
+  path: GridPosition[];
 }
 
+export interface DisputeWordResponse {
+  success: boolean;
+  players?: number;   // Players who have tried this word on this puzzle
+  disputes?: number;  // Players who have disputed it
+  message?: string;
+}
+
+// Score and time are computed by the server from the session
 export interface SubmitScoreRequest {
-  score: number;
   dailyId: string;
-  foundWords: string[];
-  timeElapsed: number;
+  sessionToken: string;
+  idempotencyKey: string;  // Retries with the same key return the original result
 }
 
 export interface SubmitScoreResponse {
   success: boolean;
+  score?: number;
+  timeElapsed?: number;
+  foundWords?: string[];
   rank?: number;        // Player's rank on leaderboard
+  totalPlayers?: number;
+  percentile?: number;
+  ranked?: boolean;     // False for practice plays after the first attempt
   isPersonalBest?: boolean;
+  completed?: boolean;  // This submission found every word
+  streak?: number;      // Current daily streak after this game
+  newAchievements?: Achievement[];
+  wordScores?: Record<string, WordScoreBreakdown>;  // Points for each found word
+  leaderboardClosed?: boolean;
+  winner?: string;
   message?: string;
 }
 
 export interface LeaderboardEntry {
   username: string;
+  rank: number;         // 1 = best; exact ties share a rank
   score: number;
   foundWords: number;  // Count of words found
   timeElapsed: number;
+  submittedAt: number; // Epoch ms; earlier wins a tie on everything else
   date: string;
 }
 
 export interface DailyLeaderboard {
+  postId: string;
   dailyId: string;
   entries: LeaderboardEntry[];
   topScore: number;
   averageScore: number;
+  totalPlayers: number;
+  offset: number;       // Position of the first entry in the full ranking
+  nextOffset?: number;  // Offset of the next page, if there is one
+}
+
+export interface PlayerRank {
+  rank: number;
+  totalPlayers: number;
+  percentile: number;   // Share of players ranked below, 0-100
+}
+
+// Longer-running boards built from daily results
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'monthly' | 'alltime';
+export type AggregatePeriod = Exclude<LeaderboardPeriod, 'daily'>;
+export type AggregateMetric = 'total' | 'average' | 'days' | 'best';
+
+export interface AggregateEntry {
+  username: string;
+  totalScore: number;
+  averageScore: number;
+  daysPlayed: number;
+  bestScore: number;
+}
+
+export interface AggregateLeaderboard {
+  period: AggregatePeriod;
+  windowId: string;  // e.g. 2026-W42, 2026-10 or all
+  metric: AggregateMetric;
+  entries: AggregateEntry[];
+}
+
+export interface ArchivedPuzzle {
+  postId: string;
+  dailyId: string;
+  date: string;
+  size: BoardSize;
+  difficulty?: Difficulty;
+  players: number;
+  topScore: number;
 }
 
 // Helper types
@@ -61,6 +233,12 @@ export interface GridPosition {
   col: number;
 }
 
+export interface SolvedWord {
+  word: string;
+  path: GridPosition[];  // One example path that spells the word
+  score: number;
+}
+
 // Error types
 export interface GameError {
   code: string;
@@ -77,6 +255,19 @@ export interface StoredGameData {
   leaderboard: DailyLeaderboard;
 }
 
+export interface ScoreBucket {
+  min: number;
+  max: number | null;  // null for the open-ended top bucket
+  count: number;
+}
+
+export interface RecentResult {
+  dailyId: string;
+  score: number;
+  foundWords: number;
+  rank?: number;
+}
+
 export interface UserProgress {
   userId: string;
   gamesPlayed: number;
@@ -84,4 +275,22 @@ export interface UserProgress {
   bestScore: number;
   averageScore: number;
   lastPlayedDate: string;
+  scoreHistogram: ScoreBucket[];
+  longestWord: string;
+  averageWordsPerGame: number;
+  recentResults: RecentResult[];  // Newest first
+  currentStreak: number;          // Consecutive daily puzzles played
+  longestStreak: number;
+}
+
+export interface Achievement {
+  id: string;
+  name: string;
+  description: string;
+  icon: string;
+  unlockedAt?: number;
+}
+
+export interface PlayerStatsResponse extends UserProgress {
+  achievements: Achievement[];
 }
\ No newline at end of file